@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+// Stand-in for a traced Ruby process, for trying out the viewer's live mode.
+// Replays the events of a trace file over Server-Sent Events in a loop, with
+// times shifted to "now" so every pass looks like a fresh run.
+//
+//   node scripts/live-server.mjs [trace.json] [--port 8787] [--interval 200]
+//
+// Then choose "Live Trace" in the viewer and connect to http://localhost:8787/events
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(name);
+  if (index < 0) return fallback;
+  const [value] = args.splice(index, 2).slice(1);
+  return Number(value);
+};
+
+const port = option('--port', 8787);
+const interval = option('--interval', 200);
+const file = args[0] ?? fileURLToPath(new URL('../fixtures/trace_data.json', import.meta.url));
+
+const trace = JSON.parse(readFileSync(file, 'utf8'));
+const events = Array.isArray(trace) ? trace : trace.events;
+const firstStart = events.find(event => event.start_time !== null)?.start_time ?? 0;
+const header = { version: trace.version ?? '1.0.0', timestamp: new Date().toISOString() };
+
+function shift(event, offset) {
+  const shifted = { ...event };
+  for (const key of ['start_time', 'end_time']) {
+    if (typeof shifted[key] === 'number') shifted[key] += offset;
+  }
+  return shifted;
+}
+
+const server = createServer((req, res) => {
+  if (req.url !== '/events') {
+    res.writeHead(404, { 'Access-Control-Allow-Origin': '*' }).end('Not found');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.write(`data: ${JSON.stringify(header)}\n\n`);
+
+  let index = 0;
+  let offset = Date.now() / 1000 - firstStart;
+  const timer = setInterval(() => {
+    if (index === events.length) {
+      index = 0;
+      offset = Date.now() / 1000 - firstStart;
+    }
+    res.write(`data: ${JSON.stringify(shift(events[index++], offset))}\n\n`);
+  }, interval);
+
+  req.on('close', () => clearInterval(timer));
+});
+
+server.listen(port, () => {
+  console.log(`Streaming ${events.length} events from ${file}`);
+  console.log(`Connect the viewer to http://localhost:${port}/events`);
+});
@@ -1,42 +1,56 @@
 import React, { useState, useCallback } from 'react';
+import { AlertTriangle } from 'lucide-react';
 import { TreeView } from './components/TreeView';
 import { FileUpload } from './components/FileUpload';
-import { TPTreeData, TreeNodeDisplay, TreeNodeData } from './types';
-import { transformTreeData } from './utils/treeTransform';
+import { CompareUpload } from './components/CompareUpload';
+import { CompareView } from './components/CompareView';
+import { DiagnosticsPanel, getDiagnosticTotal } from './components/DiagnosticsPanel';
+import { LiveConnect } from './components/LiveConnect';
+import { LiveSourceConfig, LiveView } from './components/LiveView';
+import { LoadedTrace, SourceBundle, TraceDiagnostics, TraceMetadata, TreeNodeDisplay } from './types';
+import { clearStoredTrace, clearTraceUrl } from './utils/traceSource';
+import { clearViewState } from './utils/viewState';
 
 function App() {
   const [treeData, setTreeData] = useState<TreeNodeDisplay[] | null>(null);
-  const [metadata, setMetadata] = useState<{ version: string; timestamp: string } | null>(null);
+  const [metadata, setMetadata] = useState<TraceMetadata | null>(null);
+  const [diagnostics, setDiagnostics] = useState<TraceDiagnostics | null>(null);
+  const [sources, setSources] = useState<SourceBundle | null>(null);
+  const [contentHash, setContentHash] = useState<string | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [uploadMode, setUploadMode] = useState<'single' | 'compare' | 'live'>('single');
+  const [comparison, setComparison] = useState<{ base: LoadedTrace; target: LoadedTrace } | null>(null);
+  const [liveSource, setLiveSource] = useState<LiveSourceConfig | null>(null);
 
-  const handleDataLoad = useCallback((data: TPTreeData | TreeNodeData[]) => {
-    try {
-      setError(null);
-
-      let events: TreeNodeData[];
-      let meta: { version: string; timestamp: string };
-
-      if (Array.isArray(data)) {
-        // Raw events array (from stdin)
-        events = data;
-        meta = { version: 'unknown', timestamp: new Date().toISOString() };
-      } else {
-        // Full TPTreeData object (from file)
-        events = data.events;
-        meta = { version: data.version, timestamp: data.timestamp };
-      }
+  // Parsing and tree building happen in the loader worker; we only receive the finished tree
+  const handleDataLoad = useCallback((trace: LoadedTrace) => {
+    setError(null);
+    setTreeData(trace.tree);
+    setMetadata(trace.metadata);
+    setDiagnostics(trace.diagnostics);
+    setSources(trace.sources);
+    setContentHash(trace.contentHash);
+    setShowDiagnostics(false);
+  }, []);
 
-      const transformedData = transformTreeData(events);
-      setTreeData(transformedData);
-      setMetadata(meta);
-    } catch (err) {
-      setError(`Failed to process tree data: ${err instanceof Error ? err.message : String(err)}`);
-    }
+  const handleCompareLoad = useCallback((base: LoadedTrace, target: LoadedTrace) => {
+    setError(null);
+    setComparison({ base, target });
   }, []);
 
   const handleReset = useCallback(() => {
+    // Otherwise the upload screen would reopen the same trace
+    clearStoredTrace();
+    clearTraceUrl();
+    clearViewState();
     setTreeData(null);
     setMetadata(null);
+    setDiagnostics(null);
+    setSources(null);
+    setContentHash(null);
+    setComparison(null);
+    setLiveSource(null);
     setError(null);
   }, []);
 
@@ -59,9 +73,63 @@ function App() {
           </div>
         )}
 
-        {!treeData ? (
+        {liveSource ? (
+          <LiveView source={liveSource} onDisconnect={handleReset} />
+        ) : comparison ? (
+          <div className="h-full flex flex-col">
+            <div className="mb-6 flex justify-between items-center flex-shrink-0">
+              <div className="text-sm text-gray-400">
+                <span>Before: {comparison.base.metadata.version} · {new Date(comparison.base.metadata.timestamp).toLocaleString()}</span>
+                <span className="ml-4">After: {comparison.target.metadata.version} · {new Date(comparison.target.metadata.timestamp).toLocaleString()}</span>
+              </div>
+              <button
+                onClick={handleReset}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-sm font-medium transition-colors"
+              >
+                Load New Data
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-hidden">
+              <CompareView base={comparison.base} target={comparison.target} />
+            </div>
+          </div>
+        ) : !treeData ? (
           <div className="max-w-4xl mx-auto">
-            <FileUpload onDataLoad={handleDataLoad} />
+            <div className="flex justify-center gap-2 mb-6">
+              <button
+                onClick={() => setUploadMode('single')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  uploadMode === 'single' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-300'
+                }`}
+              >
+                Single Trace
+              </button>
+              <button
+                onClick={() => setUploadMode('compare')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  uploadMode === 'compare' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-300'
+                }`}
+              >
+                Compare Two Traces
+              </button>
+              <button
+                onClick={() => setUploadMode('live')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  uploadMode === 'live' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-300'
+                }`}
+              >
+                Live Trace
+              </button>
+            </div>
+
+            {uploadMode === 'single' ? (
+              <FileUpload onDataLoad={handleDataLoad} />
+            ) : uploadMode === 'compare' ? (
+              <CompareUpload onCompareLoad={handleCompareLoad} />
+            ) : (
+              <LiveConnect onConnect={setLiveSource} />
+            )}
           </div>
         ) : (
           <div className="h-full flex flex-col">
@@ -71,9 +139,24 @@ function App() {
                 {metadata && (
                   <>
                     <span>Version: {metadata.version}</span>
+                    {metadata.migratedTo && (
+                      <span className="ml-1 text-gray-500" title="Events were upgraded from an older trace format">
+                        (migrated to {metadata.migratedTo})
+                      </span>
+                    )}
+                    {metadata.source && <span className="ml-4">Imported from {metadata.source}</span>}
                     <span className="ml-4">Generated: {new Date(metadata.timestamp).toLocaleString()}</span>
                   </>
                 )}
+                {diagnostics && getDiagnosticTotal(diagnostics) > 0 && (
+                  <button
+                    onClick={() => setShowDiagnostics(show => !show)}
+                    className="ml-4 inline-flex items-center text-yellow-400 hover:text-yellow-300"
+                  >
+                    <AlertTriangle className="w-4 h-4 mr-1" />
+                    {getDiagnosticTotal(diagnostics).toLocaleString()} {getDiagnosticTotal(diagnostics) === 1 ? 'warning' : 'warnings'}
+                  </button>
+                )}
               </div>
               <button
                 onClick={handleReset}
@@ -83,9 +166,15 @@ function App() {
               </button>
             </div>
 
+            {showDiagnostics && diagnostics && (
+              <div className="mb-6 flex-shrink-0">
+                <DiagnosticsPanel diagnostics={diagnostics} onClose={() => setShowDiagnostics(false)} />
+              </div>
+            )}
+
             {/* TreeView takes remaining space */}
             <div className="flex-1 overflow-hidden">
-              <TreeView data={treeData} />
+              <TreeView data={treeData} sources={sources} contentHash={contentHash} />
             </div>
           </div>
         )}
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, ChevronDown, ChevronRight, Download, StickyNote, Upload, X } from 'lucide-react';
+import { mergeAnnotations, NodeAnnotation, parseAnnotationSidecar, toAnnotationSidecar } from '../utils/annotations';
+import { downloadFile } from '../utils/traceExport';
+
+interface BookmarksPanelProps {
+  annotations: NodeAnnotation[];
+  // Content hash of the trace, written into exported notes files
+  traceHash: string | null;
+  selectedNodeId: string | null;
+  // False for calls the current tree doesn't show, e.g. folded ones
+  isNodeShown: (nodeId: string) => boolean;
+  onNodeSelect: (nodeId: string) => void;
+  onAnnotationsChange: (annotations: NodeAnnotation[]) => void;
+}
+
+export function BookmarksPanel({ annotations, traceHash, selectedNodeId, isNodeShown, onNodeSelect, onAnnotationsChange }: BookmarksPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    try {
+      const sidecar = parseAnnotationSidecar(await file.text());
+      if (sidecar.traceHash && traceHash && sidecar.traceHash !== traceHash
+        && !confirm(`${file.name} was written for a different trace, so its notes may point at the wrong calls.\n\nImport anyway?`)) {
+        return;
+      }
+      onAnnotationsChange(mergeAnnotations(annotations, sidecar.annotations));
+      const count = sidecar.annotations.length;
+      setImportMessage({ text: `Imported ${count} ${count === 1 ? 'entry' : 'entries'} from ${file.name}`, isError: false });
+    } catch (error) {
+      setImportMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full p-4 flex items-center justify-between text-left"
+      >
+        <h3 className="text-lg font-semibold flex items-center">
+          <Bookmark className="w-5 h-5 mr-2" />
+          Bookmarks
+        </h3>
+        <span className="flex items-center text-xs text-gray-400">
+          {annotations.length > 0 && <span className="mr-2 text-yellow-300">{annotations.length}</span>}
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 text-sm">
+          {annotations.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Bookmark calls from the gutter of the Call Tree (or press <kbd className="px-1 bg-gray-700 rounded">b</kbd>) and add notes in Node Details.
+            </p>
+          ) : (
+            <ul className="space-y-1 max-h-56 overflow-auto text-xs">
+              {annotations.map(annotation => {
+                const shown = isNodeShown(annotation.nodeId);
+                return (
+                  <li
+                    key={annotation.nodeId}
+                    className={`p-1.5 rounded ${shown ? 'cursor-pointer hover:bg-gray-700' : 'opacity-50'} ${
+                      annotation.nodeId === selectedNodeId ? 'bg-gray-700' : ''
+                    }`}
+                    onClick={shown ? () => onNodeSelect(annotation.nodeId) : undefined}
+                    title={shown ? undefined : 'Not in the current tree (folded away?)'}
+                  >
+                    <div className="flex items-center gap-1 min-w-0">
+                      {annotation.bookmarked ? (
+                        <Bookmark className="w-3 h-3 text-yellow-400 fill-current flex-shrink-0" aria-label="Bookmarked" />
+                      ) : (
+                        <StickyNote className="w-3 h-3 text-blue-300 flex-shrink-0" aria-label="Note" />
+                      )}
+                      <span className="font-mono text-gray-200 truncate flex-1">{annotation.label}</span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onAnnotationsChange(annotations.filter(other => other !== annotation));
+                        }}
+                        className="text-gray-500 hover:text-white flex-shrink-0"
+                        title="Remove bookmark and note"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                    {annotation.note && (
+                      <div className="ml-4 text-gray-400 line-clamp-2 whitespace-pre-wrap">{annotation.note}</div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(toAnnotationSidecar(traceHash, annotations), 'trace.notes.json', 'application/json')}
+              disabled={annotations.length === 0}
+              className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+              title="Save bookmarks and notes as a JSON file to share with the trace"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+              title="Load bookmarks and notes from a JSON file"
+            >
+              <Upload className="w-3 h-3 mr-1" />
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImport(file);
+              }}
+            />
+          </div>
+
+          {importMessage && (
+            <p className={`text-xs ${importMessage.isError ? 'text-red-400' : 'text-gray-400'}`}>{importMessage.text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
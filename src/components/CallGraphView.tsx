@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, ArrowRight, Crosshair } from 'lucide-react';
+import { TreeNodeDisplay } from '../types';
+import { formatDuration } from '../utils/treeTransform';
+import { buildCallGraph, CallGraphEdge } from '../utils/callGraph';
+
+interface CallGraphViewProps {
+  data: TreeNodeDisplay[];
+  onNodeSelect: (nodeId: string) => void;
+}
+
+const MAX_NEIGHBOURS = 12;
+const GRAPH_WIDTH = 720;
+const BOX_WIDTH = 200;
+const BOX_HEIGHT = 28;
+const ROW_GAP = 12;
+const MAX_STROKE = 8;
+
+function splitKey(key: string) {
+  const index = key.lastIndexOf('#');
+  return { className: key.slice(0, index), methodName: key.slice(index + 1) };
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+export function CallGraphView({ data, onNodeSelect }: CallGraphViewProps) {
+  const graph = useMemo(() => buildCallGraph(data), [data]);
+  const [filter, setFilter] = useState('');
+
+  const methodList = useMemo(() => {
+    const filterLower = filter.toLowerCase();
+    return [...graph.methods.values()]
+      .filter(stats => !filter || stats.key.toLowerCase().includes(filterLower))
+      .sort((a, b) => b.total_time - a.total_time);
+  }, [graph, filter]);
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  // Methods without timing data have no stats but can still appear as graph neighbours
+  const isKnown = (key: string) => graph.methods.has(key) || graph.callersOf.has(key) || graph.calleesOf.has(key);
+  const focusKey = selectedKey && isKnown(selectedKey) ? selectedKey : methodList[0]?.key ?? null;
+
+  const callers = (focusKey && graph.callersOf.get(focusKey)) || [];
+  const callees = (focusKey && graph.calleesOf.get(focusKey)) || [];
+  const focusStats = focusKey ? graph.methods.get(focusKey) : undefined;
+
+  const shownCallers = callers.slice(0, MAX_NEIGHBOURS);
+  const shownCallees = callees.slice(0, MAX_NEIGHBOURS);
+  const rows = Math.max(shownCallers.length, shownCallees.length, 1);
+  const graphHeight = rows * (BOX_HEIGHT + ROW_GAP) + ROW_GAP;
+  const maxEdgeTime = Math.max(...shownCallers.map(e => e.time), ...shownCallees.map(e => e.time), 0);
+
+  const rowY = (index: number, count: number) => {
+    const offset = (rows - count) * (BOX_HEIGHT + ROW_GAP) / 2;
+    return ROW_GAP + offset + index * (BOX_HEIGHT + ROW_GAP);
+  };
+  const centerY = graphHeight / 2 - BOX_HEIGHT / 2;
+  const centerX = (GRAPH_WIDTH - BOX_WIDTH) / 2;
+
+  const renderEdge = (edge: CallGraphEdge, y: number, side: 'caller' | 'callee') => {
+    const fromX = side === 'caller' ? BOX_WIDTH : centerX + BOX_WIDTH;
+    const toX = side === 'caller' ? centerX : GRAPH_WIDTH - BOX_WIDTH;
+    const fromY = side === 'caller' ? y + BOX_HEIGHT / 2 : centerY + BOX_HEIGHT / 2;
+    const toY = side === 'caller' ? centerY + BOX_HEIGHT / 2 : y + BOX_HEIGHT / 2;
+    const midX = (fromX + toX) / 2;
+    const strokeWidth = 1 + (maxEdgeTime > 0 ? (edge.time / maxEdgeTime) * (MAX_STROKE - 1) : 0);
+
+    return (
+      <g key={`${side}-${edge.caller}-${edge.callee}`}>
+        <path
+          d={`M ${fromX} ${fromY} C ${midX} ${fromY}, ${midX} ${toY}, ${toX} ${toY}`}
+          fill="none"
+          stroke={side === 'caller' ? '#3b82f6' : '#f59e0b'}
+          strokeOpacity={0.6}
+          strokeWidth={strokeWidth}
+        />
+        <text x={midX} y={(fromY + toY) / 2 - 4} textAnchor="middle" className="fill-gray-400" fontSize={10}>
+          {edge.calls}x
+        </text>
+      </g>
+    );
+  };
+
+  const renderBox = (key: string, x: number, y: number, highlight: boolean) => {
+    const { className, methodName } = splitKey(key);
+    return (
+      <g key={`${key}-${x}`} className="cursor-pointer" onClick={() => setSelectedKey(key)}>
+        <rect
+          x={x}
+          y={y}
+          width={BOX_WIDTH}
+          height={BOX_HEIGHT}
+          rx={4}
+          className={highlight ? 'fill-blue-900 stroke-blue-400' : 'fill-gray-900 stroke-gray-600 hover:stroke-gray-400'}
+        />
+        <text x={x + 8} y={y + 12} fontSize={11} className="fill-blue-300 font-mono">
+          {truncate(methodName, 26)}
+        </text>
+        <text x={x + 8} y={y + 23} fontSize={9} className="fill-gray-400 font-mono">
+          {truncate(className, 32)}
+        </text>
+      </g>
+    );
+  };
+
+  const renderEdgeList = (edges: CallGraphEdge[], side: 'caller' | 'callee') => (
+    <div className="space-y-1">
+      {edges.length === 0 && <div className="text-xs text-gray-500">None</div>}
+      {edges.map(edge => {
+        const key = side === 'caller' ? edge.caller : edge.callee;
+        return (
+          <div
+            key={key}
+            onClick={() => setSelectedKey(key)}
+            className="flex justify-between items-center bg-gray-900 hover:bg-gray-700 px-2 py-1 rounded cursor-pointer text-xs font-mono"
+          >
+            <span className="truncate text-blue-400">{key}</span>
+            <span className="flex-shrink-0 ml-2 text-gray-400">
+              {edge.calls}x <span className="text-cyan-400 ml-1">{formatDuration(edge.time)}</span>
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="h-full flex">
+      {/* Method list */}
+      <div className="w-72 border-r border-gray-700 flex flex-col flex-shrink-0">
+        <div className="p-3 flex-shrink-0">
+          <input
+            type="text"
+            placeholder="Filter methods..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="w-full px-3 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div className="flex-1 overflow-auto px-3 pb-3 space-y-1">
+          {methodList.map(stats => (
+            <div
+              key={stats.key}
+              onClick={() => setSelectedKey(stats.key)}
+              className={`px-2 py-1 rounded cursor-pointer text-xs font-mono ${
+                stats.key === focusKey ? 'bg-gray-700' : 'hover:bg-gray-700'
+              }`}
+            >
+              <div className="text-blue-400 truncate">{stats.method_name}</div>
+              <div className="flex justify-between text-gray-500">
+                <span className="truncate">{stats.class_name}</span>
+                <span className="flex-shrink-0 ml-2">{stats.call_count}x · {formatDuration(stats.total_time)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Drill-down */}
+      <div className="flex-1 overflow-auto p-4">
+        {focusKey ? (
+          <div className="space-y-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="font-mono text-lg text-blue-400">{focusKey}</div>
+                {focusStats && (
+                  <div className="text-sm text-gray-400">
+                    {focusStats.call_count} calls · total {formatDuration(focusStats.total_time)} · self {formatDuration(focusStats.self_time)}
+                  </div>
+                )}
+              </div>
+              {focusStats && focusStats.node_ids[0] && (
+                <button
+                  onClick={() => onNodeSelect(focusStats.node_ids[0])}
+                  className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs flex-shrink-0"
+                >
+                  <Crosshair className="w-3 h-3 mr-1" />
+                  Show First Call
+                </button>
+              )}
+            </div>
+
+            <svg viewBox={`0 0 ${GRAPH_WIDTH} ${graphHeight}`} className="w-full" style={{ maxHeight: 480 }}>
+              {shownCallers.map((edge, i) => renderEdge(edge, rowY(i, shownCallers.length), 'caller'))}
+              {shownCallees.map((edge, i) => renderEdge(edge, rowY(i, shownCallees.length), 'callee'))}
+              {shownCallers.map((edge, i) => renderBox(edge.caller, 0, rowY(i, shownCallers.length), false))}
+              {shownCallees.map((edge, i) => renderBox(edge.callee, GRAPH_WIDTH - BOX_WIDTH, rowY(i, shownCallees.length), false))}
+              {renderBox(focusKey, centerX, centerY, true)}
+            </svg>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-semibold mb-2 flex items-center text-gray-300">
+                  <ArrowLeft className="w-4 h-4 mr-1 text-blue-400" />
+                  Callers of {splitKey(focusKey).methodName} ({callers.length})
+                </h3>
+                {renderEdgeList(callers, 'caller')}
+              </div>
+              <div>
+                <h3 className="text-sm font-semibold mb-2 flex items-center text-gray-300">
+                  <ArrowRight className="w-4 h-4 mr-1 text-yellow-400" />
+                  Callees of {splitKey(focusKey).methodName} ({callees.length})
+                </h3>
+                {renderEdgeList(callees, 'callee')}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 text-center text-gray-400">No methods to display</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { FileJson, GitCompare, Check, X } from 'lucide-react';
+import { LoadedTrace, LoadProgress } from '../types';
+import { loadTrace, isAbortError, TraceLoadTask, TraceValidationError } from '../utils/traceLoader';
+import { detectImportFormat } from '../importers';
+import { formatBytes } from '../utils/treeTransform';
+
+interface CompareUploadProps {
+  onCompareLoad: (base: LoadedTrace, target: LoadedTrace) => void;
+}
+
+type Slot = 'base' | 'target';
+
+interface SlotState {
+  fileName: string | null;
+  trace: LoadedTrace | null;
+  progress: LoadProgress | null;
+}
+
+const EMPTY_SLOT: SlotState = { fileName: null, trace: null, progress: null };
+
+const SLOT_LABELS: Record<Slot, string> = {
+  base: 'Before (baseline)',
+  target: 'After',
+};
+
+export function CompareUpload({ onCompareLoad }: CompareUploadProps) {
+  const [slots, setSlots] = useState<Record<Slot, SlotState>>({ base: EMPTY_SLOT, target: EMPTY_SLOT });
+  const tasksRef = useRef<Partial<Record<Slot, TraceLoadTask>>>({});
+  // Bumped by every load and cancel in a slot, as in FileUpload
+  const loadIdsRef = useRef<Record<Slot, number>>({ base: 0, target: 0 });
+
+  useEffect(() => () => {
+    loadIdsRef.current.base++;
+    loadIdsRef.current.target++;
+    tasksRef.current.base?.cancel();
+    tasksRef.current.target?.cancel();
+  }, []);
+
+  const updateSlot = useCallback((slot: Slot, update: Partial<SlotState>) => {
+    setSlots(prev => ({ ...prev, [slot]: { ...prev[slot], ...update } }));
+  }, []);
+
+  const handleFile = useCallback(async (slot: Slot, file: File, skipInvalid = false) => {
+    tasksRef.current[slot]?.cancel();
+    delete tasksRef.current[slot];
+    const loadId = ++loadIdsRef.current[slot];
+    updateSlot(slot, { fileName: file.name, trace: null, progress: { bytesRead: 0, totalBytes: file.size, eventCount: 0 } });
+
+    try {
+      const importFormat = await detectImportFormat(file);
+      if (loadIdsRef.current[slot] !== loadId) return;
+      const task = loadTrace(file, progress => updateSlot(slot, { progress }), { skipInvalid, importFormat });
+      tasksRef.current[slot] = task;
+
+      const trace = await task.promise;
+      updateSlot(slot, { trace, progress: null });
+    } catch (error) {
+      if (error instanceof TraceValidationError) {
+        delete tasksRef.current[slot];
+        if (confirm(`${error.message}\n\nLoad anyway, skipping invalid events?`)) {
+          handleFile(slot, file, true);
+        } else {
+          updateSlot(slot, EMPTY_SLOT);
+        }
+      } else if (!isAbortError(error)) {
+        alert(`Failed to parse JSON file: ${error instanceof Error ? error.message : String(error)}`);
+        updateSlot(slot, EMPTY_SLOT);
+      }
+    } finally {
+      if (loadIdsRef.current[slot] === loadId) delete tasksRef.current[slot];
+    }
+  }, [updateSlot]);
+
+  const handleCancel = useCallback((slot: Slot) => {
+    loadIdsRef.current[slot]++;
+    tasksRef.current[slot]?.cancel();
+    delete tasksRef.current[slot];
+    updateSlot(slot, EMPTY_SLOT);
+  }, [updateSlot]);
+
+  const renderSlot = (slot: Slot) => {
+    const state = slots[slot];
+    const inputId = `compare-upload-${slot}`;
+
+    return (
+      <div className="flex-1 border-2 border-dashed border-gray-600 rounded-lg p-6 text-center">
+        <h4 className="font-semibold mb-3">{SLOT_LABELS[slot]}</h4>
+        <input
+          type="file"
+          accept=".json,.ndjson,.jsonl,.txt,.folded,.collapsed"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(slot, file);
+          }}
+          className="hidden"
+          id={inputId}
+        />
+        <label
+          htmlFor={inputId}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md cursor-pointer transition-colors"
+        >
+          <FileJson className="w-4 h-4 mr-2" />
+          Choose JSON File
+        </label>
+
+        {state.fileName && (
+          <div className="mt-3 text-sm text-gray-300 font-mono truncate">{state.fileName}</div>
+        )}
+
+        {state.progress && (
+          <div className="mt-3 text-left">
+            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+              <span>
+                {formatBytes(state.progress.bytesRead)} / {formatBytes(state.progress.totalBytes)}
+                <span className="ml-2">{state.progress.eventCount.toLocaleString()} events</span>
+              </span>
+              <button onClick={() => handleCancel(slot)} className="hover:text-white">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="h-1.5 bg-gray-700 rounded overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${state.progress.totalBytes > 0 ? (state.progress.bytesRead / state.progress.totalBytes) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {state.trace && (
+          <div className="mt-3 flex items-center justify-center text-sm text-green-400">
+            <Check className="w-4 h-4 mr-1" />
+            {state.trace.eventCount.toLocaleString()} events loaded
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const { base, target } = slots;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="flex gap-4">
+        {renderSlot('base')}
+        {renderSlot('target')}
+      </div>
+
+      <div className="mt-6 text-center">
+        <button
+          onClick={() => base.trace && target.trace && onCompareLoad(base.trace, target.trace)}
+          disabled={!base.trace || !target.trace}
+          className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <GitCompare className="w-4 h-4 mr-2" />
+          Compare Traces
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ChevronRight, ChevronDown, GitCompare, BarChart3, FileText } from 'lucide-react';
+import { LoadedTrace } from '../types';
+import { formatDuration, formatDurationDelta } from '../utils/treeTransform';
+import { diffTrees, isRegression, DiffNode, DiffStatus } from '../utils/treeDiff';
+import { PerformanceAnalysis } from './PerformanceAnalysis';
+
+interface CompareViewProps {
+  base: LoadedTrace;
+  target: LoadedTrace;
+}
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; className: string }> = {
+  added: { label: 'added', className: 'text-blue-300 bg-blue-900/50' },
+  removed: { label: 'removed', className: 'text-gray-400 bg-gray-700' },
+  changed: { label: 'changed', className: 'text-yellow-300 bg-yellow-900/40' },
+  unchanged: { label: '', className: '' },
+};
+
+export function CompareView({ base, target }: CompareViewProps) {
+  const [activeTab, setActiveTab] = useState<'tree' | 'performance'>('tree');
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [regressionsOnly, setRegressionsOnly] = useState(false);
+
+  const diff = useMemo(() => diffTrees(base.tree, target.tree), [base, target]);
+
+  // Indexes for selection, the regressions filter and jumping from performance cards
+  const { diffById, diffByTargetNodeId, hasRegression } = useMemo(() => {
+    const byId = new Map<string, DiffNode>();
+    const byTargetNodeId = new Map<string, DiffNode>();
+    const regressed = new Set<string>();
+
+    function index(nodes: DiffNode[]): boolean {
+      let any = false;
+      for (const node of nodes) {
+        byId.set(node.id, node);
+        node.target?.node_ids.forEach(id => byTargetNodeId.set(id, node));
+        const childRegressed = index(node.children);
+        if (childRegressed || isRegression(node)) {
+          regressed.add(node.id);
+          any = true;
+        }
+      }
+      return any;
+    }
+    index(diff);
+
+    return { diffById: byId, diffByTargetNodeId: byTargetNodeId, hasRegression: regressed };
+  }, [diff]);
+
+  React.useEffect(() => {
+    setExpandedNodes(new Set(diff.map(node => node.id)));
+    setSelectedNode(null);
+  }, [diff]);
+
+  const visibleNodes = useMemo(() => {
+    const result: DiffNode[] = [];
+
+    function traverse(nodes: DiffNode[]) {
+      for (const node of nodes) {
+        if (regressionsOnly && !hasRegression.has(node.id)) continue;
+        result.push(node);
+        if (expandedNodes.has(node.id)) traverse(node.children);
+      }
+    }
+
+    traverse(diff);
+    return result;
+  }, [diff, expandedNodes, regressionsOnly, hasRegression]);
+
+  const parentRef = React.useRef<HTMLDivElement>(null);
+
+  const virtualizer = useVirtualizer({
+    count: visibleNodes.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => 36,
+    overscan: 10,
+  });
+
+  React.useEffect(() => {
+    if (activeTab === 'tree') {
+      virtualizer.measure();
+    }
+  }, [activeTab, virtualizer]);
+
+  const toggleExpansion = useCallback((nodeId: string) => {
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) {
+        next.delete(nodeId);
+      } else {
+        next.add(nodeId);
+      }
+      return next;
+    });
+  }, []);
+
+  // Performance cards refer to nodes of the "after" trace; jump to the aligned diff row
+  const handleTargetNodeSelect = useCallback((nodeId: string) => {
+    const diffNode = diffByTargetNodeId.get(nodeId);
+    if (!diffNode) return;
+
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      for (let ancestor = diffNode.parent; ancestor; ancestor = ancestor.parent) {
+        next.add(ancestor.id);
+      }
+      return next;
+    });
+    setSelectedNode(diffNode.id);
+    setActiveTab('tree');
+  }, [diffByTargetNodeId]);
+
+  const selectedNodeData = selectedNode ? diffById.get(selectedNode) : null;
+
+  const renderDelta = (node: DiffNode) => {
+    if (!node.base || !node.target) return null;
+    const regressed = isRegression(node);
+    const improved = node.status === 'changed' && node.durationDelta < 0;
+    return (
+      <span className={`text-xs ml-2 flex-shrink-0 ${regressed ? 'text-red-400' : improved ? 'text-green-400' : 'text-gray-500'}`}>
+        {formatDurationDelta(node.durationDelta)}
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex gap-6 h-full">
+      <div className="flex-1 bg-gray-800 rounded-lg overflow-hidden flex flex-col">
+        <div className="border-b border-gray-700 flex-shrink-0">
+          <div className="flex">
+            <button
+              onClick={() => setActiveTab('tree')}
+              className={`flex items-center px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === 'tree'
+                  ? 'border-blue-500 text-blue-400'
+                  : 'border-transparent text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <GitCompare className="w-4 h-4 mr-2" />
+              Diff Tree
+            </button>
+            <button
+              onClick={() => setActiveTab('performance')}
+              className={`flex items-center px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === 'performance'
+                  ? 'border-blue-500 text-blue-400'
+                  : 'border-transparent text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Performance
+            </button>
+          </div>
+
+          <div className="p-4 flex justify-between items-center text-sm text-gray-400">
+            <label className="flex items-center text-gray-300">
+              <input
+                type="checkbox"
+                checked={regressionsOnly}
+                onChange={(e) => setRegressionsOnly(e.target.checked)}
+                className="mr-2"
+              />
+              Regressions only
+            </label>
+            {activeTab === 'tree' && (
+              <div className="flex items-center gap-2">
+                <span className="mr-2">{visibleNodes.length} call paths shown</span>
+                <button
+                  onClick={() => setExpandedNodes(new Set(diffById.keys()))}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                >
+                  Expand All
+                </button>
+                <button
+                  onClick={() => setExpandedNodes(new Set())}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                >
+                  Collapse All
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden">
+          {activeTab === 'tree' ? (
+            <div ref={parentRef} className="h-full overflow-auto">
+              {visibleNodes.length > 0 ? (
+                <div
+                  style={{
+                    height: `${virtualizer.getTotalSize()}px`,
+                    width: '100%',
+                    position: 'relative',
+                  }}
+                >
+                  {virtualizer.getVirtualItems().map((virtualItem) => {
+                    const node = visibleNodes[virtualItem.index];
+                    if (!node) return null;
+                    const style = STATUS_STYLES[node.status];
+
+                    return (
+                      <div
+                        key={virtualItem.key}
+                        style={{
+                          position: 'absolute',
+                          top: 0,
+                          left: 0,
+                          width: '100%',
+                          height: `${virtualItem.size}px`,
+                          transform: `translateY(${virtualItem.start + 16}px)`,
+                          paddingLeft: '16px',
+                          paddingRight: '16px',
+                        }}
+                        className="font-mono"
+                      >
+                        <div
+                          className={`flex items-center cursor-pointer hover:bg-gray-700 py-2 px-2 rounded mb-1 transition-colors ${
+                            selectedNode === node.id ? 'bg-gray-700' : ''
+                          }`}
+                          onClick={() => setSelectedNode(node.id)}
+                        >
+                          {Array.from({ length: node.depth }, (_, i) => (
+                            <div key={`depth-${i}`} className="w-4 border-l-2 border-gray-600 mr-2" style={{ height: '24px' }} />
+                          ))}
+                          {node.children.length > 0 ? (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleExpansion(node.id);
+                              }}
+                              className="text-gray-400 hover:text-white mr-2 p-1 rounded"
+                            >
+                              {expandedNodes.has(node.id) ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                            </button>
+                          ) : (
+                            <div className="w-6 mr-2" />
+                          )}
+                          <div className="flex items-center gap-1 min-w-0 text-sm flex-1">
+                            <span className={`font-semibold truncate ${node.status === 'removed' ? 'line-through text-gray-500' : 'text-blue-400'}`}>
+                              {node.method_name}
+                            </span>
+                            {node.defined_class && (
+                              <span className="text-gray-500 text-xs truncate">{node.defined_class}</span>
+                            )}
+                            {style.label && (
+                              <span className={`text-xs ml-2 px-1 py-0.5 rounded flex-shrink-0 ${style.className}`}>{style.label}</span>
+                            )}
+                            <span className="text-cyan-400 text-xs ml-auto flex-shrink-0">
+                              [{formatDuration(node.target?.duration ?? node.base?.duration ?? 0)}]
+                            </span>
+                            {renderDelta(node)}
+                            {node.callDelta !== 0 && node.base && node.target && (
+                              <span className="text-xs ml-2 text-gray-400 flex-shrink-0">
+                                {node.base.calls}→{node.target.calls}x
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="p-4 text-center text-gray-400">
+                  {regressionsOnly ? 'No regressions found' : 'No calls to compare'}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="h-full overflow-auto p-4">
+              <PerformanceAnalysis
+                data={target.tree}
+                baselineData={base.tree}
+                regressionsOnly={regressionsOnly}
+                onNodeSelect={handleTargetNodeSelect}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Details Panel */}
+      <div className="w-80 bg-gray-800 rounded-lg flex flex-col">
+        <div className="p-4 border-b border-gray-700 flex-shrink-0">
+          <h3 className="text-lg font-semibold flex items-center">
+            <FileText className="w-5 h-5 mr-2" />
+            Call Path Details
+          </h3>
+        </div>
+
+        <div className="p-4 flex-1 overflow-auto">
+          {selectedNodeData ? (
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm font-medium text-gray-400">Method</label>
+                <div className="font-mono text-blue-400">{selectedNodeData.method_name}</div>
+              </div>
+
+              {selectedNodeData.defined_class && (
+                <div>
+                  <label className="text-sm font-medium text-gray-400">Class</label>
+                  <div className="font-mono text-green-400">{selectedNodeData.defined_class}</div>
+                </div>
+              )}
+
+              <div>
+                <label className="text-sm font-medium text-gray-400">Status</label>
+                <div className="font-mono capitalize">{selectedNodeData.status}</div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-400">Before</label>
+                  <div className="font-mono text-sm">
+                    {selectedNodeData.base
+                      ? <>{selectedNodeData.base.calls}x · {formatDuration(selectedNodeData.base.duration)}</>
+                      : '—'}
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-400">After</label>
+                  <div className="font-mono text-sm">
+                    {selectedNodeData.target
+                      ? <>{selectedNodeData.target.calls}x · {formatDuration(selectedNodeData.target.duration)}</>
+                      : '—'}
+                  </div>
+                </div>
+              </div>
+
+              {selectedNodeData.base && selectedNodeData.target && (
+                <div>
+                  <label className="text-sm font-medium text-gray-400">Change</label>
+                  <div className={`font-mono ${isRegression(selectedNodeData) ? 'text-red-400' : 'text-green-400'}`}>
+                    {formatDurationDelta(selectedNodeData.durationDelta)}
+                    {selectedNodeData.base.duration > 0 && (
+                      <span className="ml-2 text-sm">
+                        ({((selectedNodeData.durationDelta / selectedNodeData.base.duration) * 100).toFixed(1)}%)
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="text-sm font-medium text-gray-400">Call Path</label>
+                <div className="font-mono text-xs text-gray-300 break-all">
+                  {selectedNodeData.id.split('/').join(' → ')}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="text-center text-gray-500 py-8">
+              <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p>Select a call path to compare</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { DiagnosticKind, TraceDiagnostics, ValidationIssue } from '../types';
+
+interface DiagnosticsPanelProps {
+  diagnostics: TraceDiagnostics;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<DiagnosticKind, { label: string; description: string }> = {
+  'depth-jump': {
+    label: 'Depth jumps',
+    description: 'A call is more than one level deeper than the frame it runs in; calls were probably not traced in between.',
+  },
+  'negative-duration': {
+    label: 'Negative durations',
+    description: 'A call ends before it starts, so its timing cannot be trusted.',
+  },
+  'non-monotonic-start': {
+    label: 'Non-monotonic start_time',
+    description: 'A call starts before the call recorded ahead of it; the clock may have jumped or events are out of order.',
+  },
+  'unknown-version': {
+    label: 'Unknown format version',
+    description: 'The trace declares a format version this viewer was not built for, e.g. one from a newer tp_tree gem.',
+  },
+};
+
+export function getDiagnosticTotal(diagnostics: TraceDiagnostics): number {
+  return diagnostics.warningCount + diagnostics.skippedCount;
+}
+
+function IssueList({ issues }: { issues: ValidationIssue[] }) {
+  return (
+    <ul className="space-y-0.5 text-xs font-mono">
+      {issues.map((issue, i) => (
+        <li key={i}>
+          <span className="text-yellow-300">{issue.path}</span>
+          <span className="text-gray-300">: {issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function DiagnosticsPanel({ diagnostics, onClose }: DiagnosticsPanelProps) {
+  const { warnings, warningCount, skippedCount, skippedIssues } = diagnostics;
+  const kinds = (Object.keys(KIND_LABELS) as DiagnosticKind[])
+    .map(kind => ({ kind, items: warnings.filter(warning => warning.kind === kind) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <div className="p-4 bg-gray-800 border border-yellow-700 rounded-lg max-h-64 overflow-auto">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold text-yellow-300 flex items-center">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          Trace Diagnostics
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {skippedCount > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-red-300 mb-1">
+              {skippedCount.toLocaleString()} invalid {skippedCount === 1 ? 'event' : 'events'} skipped
+            </h4>
+            <IssueList issues={skippedIssues} />
+          </div>
+        )}
+
+        {kinds.map(({ kind, items }) => (
+          <div key={kind}>
+            <h4 className="text-sm font-semibold text-gray-200">{KIND_LABELS[kind].label}</h4>
+            <p className="text-xs text-gray-400 mb-1">{KIND_LABELS[kind].description}</p>
+            <IssueList issues={items} />
+          </div>
+        ))}
+
+        {warningCount > warnings.length && (
+          <p className="text-xs text-gray-400">
+            Showing the first {warnings.length} of {warningCount.toLocaleString()} warnings.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
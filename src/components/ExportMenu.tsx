@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+
+export interface ExportOption {
+  label: string;
+  onSelect: () => void;
+  // Shown as a tooltip, e.g. why the option is disabled
+  title?: string;
+  disabled?: boolean;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  className?: string;
+}
+
+export function ExportMenu({ options, className = '' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on clicks outside the menu and on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+      >
+        <Download className="w-3 h-3 mr-1" />
+        Export
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 z-20 min-w-max bg-gray-900 border border-gray-700 rounded shadow-lg py-1">
+          {options.map(option => (
+            <button
+              key={option.label}
+              role="menuitem"
+              disabled={option.disabled}
+              title={option.title}
+              onClick={() => {
+                setIsOpen(false);
+                option.onSelect();
+              }}
+              className="block w-full text-left px-3 py-1.5 text-xs text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:hover:bg-transparent"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,58 +1,152 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, FileJson, Terminal } from 'lucide-react';
-import { TPTreeData, TreeNodeData } from '../types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, FileJson, Terminal, X, Link, AlertTriangle } from 'lucide-react';
+import { LoadedTrace, LoadProgress } from '../types';
+import { loadTrace, isAbortError, TraceLoadTask, TraceValidationError } from '../utils/traceLoader';
+import { detectImportFormat } from '../importers';
+import { formatBytes } from '../utils/treeTransform';
+import { fetchTrace, getStoredTrace, getTraceUrl, storeTrace } from '../utils/traceSource';
+import { saveTrace } from '../utils/traceLibrary';
+import { TraceLibrary } from './TraceLibrary';
 
 interface FileUploadProps {
-  onDataLoad: (data: TPTreeData | TreeNodeData[]) => void;
+  onDataLoad: (trace: LoadedTrace) => void;
+}
+
+interface HandleFileOptions {
+  // Files the trace in the library under this name
+  name?: string;
+  // Keep it in local storage so a reload reopens it
+  remember?: boolean;
+  skipInvalid?: boolean;
+}
+
+// Same list as the file picker's `accept`; detectImportFormat works out which of them a file is
+const TRACE_FILE_PATTERN = /\.(json|ndjson|jsonl|txt|folded|collapsed)$/i;
+
+// Library problems shouldn't block viewing the trace, but the user needs to know about them
+async function addToLibrary(file: Blob, name: string, trace: LoadedTrace) {
+  try {
+    const { evicted } = await saveTrace(file, name, trace);
+    if (evicted.length > 0) {
+      alert(`Removed ${evicted.length} older trace(s) from the library to make room:\n${evicted.map(e => e.name).join('\n')}`);
+    }
+  } catch (error) {
+    alert(`The trace was loaded but could not be saved to the library: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
 
 export function FileUpload({ onDataLoad }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  // A trace that failed validation, kept so it can be loaded again skipping the invalid events
+  const [invalidTrace, setInvalidTrace] = useState<{ file: Blob; options: HandleFileOptions; error: TraceValidationError } | null>(null);
+  const taskRef = useRef<TraceLoadTask | null>(null);
+  // Bumped by every load and cancel, so a load still detecting the format can tell it was superseded
+  const loadIdRef = useRef(0);
+
+  // Stop any in-flight load when the upload screen goes away
+  useEffect(() => () => {
+    loadIdRef.current++;
+    taskRef.current?.cancel();
+  }, []);
 
-  const handleFile = useCallback(async (file: File) => {
+  // Traces picked by the user are remembered so a reload reopens them;
+  // named ones (new files and pastes) are also added to the library
+  const handleFile = useCallback(async (file: Blob, options: HandleFileOptions = {}) => {
+    const { name, remember = true, skipInvalid = false } = options;
+    taskRef.current?.cancel();
+    taskRef.current = null;
+    const loadId = ++loadIdRef.current;
     setIsLoading(true);
+    setInvalidTrace(null);
+    setProgress({ bytesRead: 0, totalBytes: file.size, eventCount: 0 });
+
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-      onDataLoad(data);
+      const importFormat = await detectImportFormat(file);
+      if (loadIdRef.current !== loadId) return;
+      const task = loadTrace(file, setProgress, { skipInvalid, importFormat });
+      taskRef.current = task;
+
+      const trace = await task.promise;
+      if (remember) storeTrace(file);
+      onDataLoad(trace);
+      // Saved in the background so copying a big trace doesn't hold up viewing it
+      if (name) addToLibrary(file, name, trace);
     } catch (error) {
-      alert(`Failed to parse JSON file: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof TraceValidationError) {
+        setInvalidTrace({ file, options, error });
+      } else if (!isAbortError(error)) {
+        alert(`Failed to parse JSON file: ${error instanceof Error ? error.message : String(error)}`);
+      }
     } finally {
-      setIsLoading(false);
+      if (loadIdRef.current === loadId) {
+        taskRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
     }
   }, [onDataLoad]);
 
+  // Open straight into a trace from `?src=` or, failing that, the last one loaded here
+  useEffect(() => {
+    const url = getTraceUrl();
+    if (!url) {
+      const stored = getStoredTrace();
+      if (stored) handleFile(stored, { remember: false });
+      return;
+    }
+
+    const controller = new AbortController();
+    setDownloadUrl(url);
+    fetchTrace(url, controller.signal)
+      .then(blob => {
+        setDownloadUrl(null);
+        handleFile(blob, { remember: false });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        setDownloadUrl(null);
+        alert(`Failed to load trace: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return () => controller.abort();
+    // Only on first mount; later loads come from the user
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    loadIdRef.current++;
+    taskRef.current?.cancel();
+    taskRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  }, []);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
 
     const file = e.dataTransfer.files[0];
-    if (file && file.type === 'application/json') {
-      handleFile(file);
+    if (file && (file.type === 'application/json' || TRACE_FILE_PATTERN.test(file.name))) {
+      handleFile(file, { name: file.name });
     } else {
-      alert('Please drop a JSON file');
+      alert('Please drop a JSON, NDJSON or folded stacks file');
     }
   }, [handleFile]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      handleFile(file);
+      handleFile(file, { name: file.name });
     }
   }, [handleFile]);
 
   const handlePasteData = useCallback(() => {
     const textData = prompt('Paste your JSON data here:');
     if (textData) {
-      try {
-        const data = JSON.parse(textData);
-        onDataLoad(data);
-      } catch (error) {
-        alert(`Failed to parse JSON data: ${error instanceof Error ? error.message : String(error)}`);
-      }
+      handleFile(new Blob([textData], { type: 'application/json' }), { name: `Pasted trace ${new Date().toLocaleString()}` });
     }
-  }, [onDataLoad]);
+  }, [handleFile]);
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -75,14 +169,14 @@ export function FileUpload({ onDataLoad }: FileUploadProps) {
 
         <h3 className="text-xl font-semibold mb-2">Load Tree Data</h3>
         <p className="text-gray-400 mb-6">
-          Drop a JSON file here or choose an option below
+          Drop a JSON, NDJSON or folded stacks file here or choose an option below
         </p>
 
         <div className="space-y-4">
           <div>
             <input
               type="file"
-              accept=".json"
+              accept=".json,.ndjson,.jsonl,.txt,.folded,.collapsed"
               onChange={handleFileSelect}
               className="hidden"
               id="file-upload"
@@ -110,8 +204,79 @@ export function FileUpload({ onDataLoad }: FileUploadProps) {
             Paste JSON Data
           </button>
         </div>
+
+        {downloadUrl && (
+          <div className="mt-6 flex items-center justify-center text-sm text-gray-400">
+            <Link className="w-4 h-4 mr-2 flex-shrink-0" />
+            <span className="truncate">Downloading {downloadUrl}...</span>
+          </div>
+        )}
+
+        {invalidTrace && (
+          <div className="mt-6 p-4 bg-red-900/30 border border-red-500 rounded-lg text-left">
+            <h4 className="font-semibold text-red-300 mb-2 flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              {invalidTrace.error.invalidCount > 0
+                ? `${invalidTrace.error.invalidCount.toLocaleString()} of ${invalidTrace.error.totalCount.toLocaleString()} events don't match the trace format`
+                : "The trace doesn't match the trace format"}
+            </h4>
+            <ul className="max-h-48 overflow-auto space-y-0.5 text-xs font-mono">
+              {invalidTrace.error.issues.map((issue, i) => (
+                <li key={i}>
+                  <span className="text-red-300">{issue.path}</span>
+                  <span className="text-gray-300">: {issue.message}</span>
+                </li>
+              ))}
+            </ul>
+            {invalidTrace.error.issueCount > invalidTrace.error.issues.length && (
+              <p className="text-xs text-gray-400 mt-1">
+                Only the first {invalidTrace.error.issues.length} of {invalidTrace.error.issueCount.toLocaleString()} problems are listed.
+              </p>
+            )}
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => handleFile(invalidTrace.file, { ...invalidTrace.options, skipInvalid: true })}
+                className="px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-sm"
+              >
+                Load anyway, skip invalid events
+              </button>
+              <button
+                onClick={() => setInvalidTrace(null)}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        {progress && (
+          <div className="mt-6 text-left">
+            <div className="flex justify-between items-center text-sm text-gray-400 mb-2">
+              <span>
+                {formatBytes(progress.bytesRead)} / {formatBytes(progress.totalBytes)}
+                <span className="ml-3">{progress.eventCount.toLocaleString()} events</span>
+              </span>
+              <button
+                onClick={handleCancel}
+                className="inline-flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+              >
+                <X className="w-3 h-3 mr-1" />
+                Cancel
+              </button>
+            </div>
+            <div className="h-2 bg-gray-700 rounded overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
+      <TraceLibrary onOpen={(source) => handleFile(source)} disabled={isLoading} />
+
       <div className="mt-8 p-4 bg-gray-800 rounded-lg">
         <h4 className="font-semibold mb-2">How to generate data:</h4>
         <div className="space-y-2 text-sm text-gray-300 font-mono">
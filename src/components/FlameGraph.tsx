@@ -0,0 +1,269 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomOut } from 'lucide-react';
+import { TreeNodeDisplay } from '../types';
+import { formatDuration } from '../utils/treeTransform';
+
+interface FlameGraphProps {
+  data: TreeNodeDisplay[];
+  selectedNodeId: string | null;
+  isMatch: ((node: TreeNodeDisplay) => boolean) | null;
+  onNodeSelect: (nodeId: string) => void;
+}
+
+interface Frame {
+  node: TreeNodeDisplay;
+  x: number;      // fraction of the chart width
+  width: number;  // fraction of the chart width
+  row: number;
+  isAncestor: boolean;
+}
+
+const FRAME_HEIGHT = 20;
+const MIN_FRAME_WIDTH_PX = 0.5;
+const LABEL_MIN_WIDTH_PX = 32;
+const CHAR_WIDTH_PX = 7.2;
+
+function frameWeight(node: TreeNodeDisplay): number {
+  if (node.duration !== null && node.duration > 0) return node.duration;
+  return node.children.reduce((sum, child) => sum + frameWeight(child), 0);
+}
+
+function frameLabel(node: TreeNodeDisplay): string {
+  return node.defined_class ? `${node.defined_class}#${node.method_name}` : node.method_name;
+}
+
+// Warm flame palette, stable per class#method so repeated frames share a colour
+function frameColor(node: TreeNodeDisplay): string {
+  const label = frameLabel(node);
+  let hash = 0;
+  for (let i = 0; i < label.length; i++) {
+    hash = (hash * 31 + label.charCodeAt(i)) | 0;
+  }
+  hash = Math.abs(hash);
+  return `hsl(${hash % 50}, 80%, ${50 + (hash % 12)}%)`;
+}
+
+function layoutFrames(roots: TreeNodeDisplay[], zoomNode: TreeNodeDisplay | null, minWidth: number) {
+  const frames: Frame[] = [];
+  let rows = 0;
+
+  // When zoomed, the ancestors of the zoomed frame stay visible as full-width bars
+  const ancestors: TreeNodeDisplay[] = [];
+  for (let node = zoomNode?.parent; node; node = node.parent) {
+    ancestors.unshift(node);
+  }
+  ancestors.forEach((node, row) => frames.push({ node, x: 0, width: 1, row, isAncestor: true }));
+  rows = ancestors.length;
+
+  const top = zoomNode ? [zoomNode] : roots;
+  const total = top.reduce((sum, node) => sum + frameWeight(node), 0);
+  if (total <= 0) return { frames, rows };
+
+  const pending: Omit<Frame, 'isAncestor'>[] = [];
+  let x = 0;
+  for (const node of top) {
+    const width = frameWeight(node) / total;
+    pending.push({ node, x, width, row: ancestors.length });
+    x += width;
+  }
+
+  while (pending.length > 0) {
+    const frame = pending.pop()!;
+    if (frame.width < minWidth) continue;
+
+    frames.push({ ...frame, isAncestor: false });
+    rows = Math.max(rows, frame.row + 1);
+
+    const weights = frame.node.children.map(frameWeight);
+    const childTotal = weights.reduce((sum, w) => sum + w, 0);
+    // Children can add up to slightly more than the parent because of timer resolution
+    const scale = frame.width / Math.max(frameWeight(frame.node), childTotal);
+
+    let childX = frame.x;
+    frame.node.children.forEach((child, i) => {
+      const width = weights[i] * scale;
+      pending.push({ node: child, x: childX, width, row: frame.row + 1 });
+      childX += width;
+    });
+  }
+
+  return { frames, rows };
+}
+
+export function FlameGraph({ data, selectedNodeId, isMatch, onNodeSelect }: FlameGraphProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [zoomNode, setZoomNode] = useState<TreeNodeDisplay | null>(null);
+  const [orientation, setOrientation] = useState<'icicle' | 'flame'>('icicle');
+  const [hovered, setHovered] = useState<{ frame: Frame; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    setZoomNode(null);
+  }, [data]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const { frames, rows } = useMemo(
+    () => layoutFrames(data, zoomNode, width > 0 ? MIN_FRAME_WIDTH_PX / width : 0),
+    [data, zoomNode, width]
+  );
+
+  // Per-row frames sorted by x for hit testing
+  const framesByRow = useMemo(() => {
+    const byRow: Frame[][] = Array.from({ length: rows }, () => []);
+    frames.forEach(frame => byRow[frame.row].push(frame));
+    byRow.forEach(row => row.sort((a, b) => a.x - b.x));
+    return byRow;
+  }, [frames, rows]);
+
+  const rowY = useCallback((row: number) => (
+    orientation === 'icicle' ? row * FRAME_HEIGHT : (rows - 1 - row) * FRAME_HEIGHT
+  ), [orientation, rows]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const height = Math.max(rows, 1) * FRAME_HEIGHT;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = '12px "JetBrains Mono", monospace';
+    ctx.textBaseline = 'middle';
+
+    for (const frame of frames) {
+      const fx = frame.x * width;
+      const fw = Math.max(frame.width * width - 1, 1);
+      const fy = rowY(frame.row);
+      const matched = !isMatch || isMatch(frame.node);
+
+      ctx.globalAlpha = frame.isAncestor ? 0.5 : 1;
+      ctx.fillStyle = matched ? frameColor(frame.node) : '#374151';
+      ctx.fillRect(fx, fy, fw, FRAME_HEIGHT - 1);
+
+      if (frame.node.id === selectedNodeId) {
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(fx + 1, fy + 1, fw - 2, FRAME_HEIGHT - 3);
+      }
+
+      if (fw >= LABEL_MIN_WIDTH_PX) {
+        const label = frameLabel(frame.node);
+        const maxChars = Math.floor((fw - 8) / CHAR_WIDTH_PX);
+        const text = label.length > maxChars ? `${label.slice(0, Math.max(maxChars - 1, 1))}…` : label;
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = matched ? '#111827' : '#9ca3af';
+        ctx.fillText(text, fx + 4, fy + FRAME_HEIGHT / 2);
+      }
+    }
+    ctx.globalAlpha = 1;
+  }, [frames, rows, width, rowY, isMatch, selectedNodeId]);
+
+  const frameAt = useCallback((x: number, y: number): Frame | null => {
+    if (width === 0) return null;
+    const visualRow = Math.floor(y / FRAME_HEIGHT);
+    const row = orientation === 'icicle' ? visualRow : rows - 1 - visualRow;
+    const candidates = framesByRow[row];
+    if (!candidates) return null;
+
+    const fraction = x / width;
+    let lo = 0;
+    let hi = candidates.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const frame = candidates[mid];
+      if (fraction < frame.x) {
+        hi = mid - 1;
+      } else if (fraction > frame.x + frame.width) {
+        lo = mid + 1;
+      } else {
+        return frame;
+      }
+    }
+    return null;
+  }, [framesByRow, orientation, rows, width]);
+
+  const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const frame = frameAt(e.clientX - rect.left, e.clientY - rect.top);
+    if (!frame) return;
+
+    setZoomNode(frame.node);
+    onNodeSelect(frame.node.id);
+  }, [frameAt, onNodeSelect]);
+
+  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const frame = frameAt(x, y);
+    setHovered(frame ? { frame, x, y } : null);
+  }, [frameAt]);
+
+  const zoomTotal = zoomNode ? frameWeight(zoomNode) : data.reduce((sum, node) => sum + frameWeight(node), 0);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex justify-between items-center px-4 py-2 text-sm text-gray-400 flex-shrink-0">
+        <span className="truncate">
+          {zoomNode ? frameLabel(zoomNode) : 'All calls'} · {formatDuration(zoomTotal)}
+        </span>
+        <div className="flex gap-2 flex-shrink-0">
+          <button
+            onClick={() => setOrientation(orientation === 'icicle' ? 'flame' : 'icicle')}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+          >
+            {orientation === 'icicle' ? 'Flame' : 'Icicle'}
+          </button>
+          <button
+            onClick={() => setZoomNode(null)}
+            disabled={!zoomNode}
+            className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+          >
+            <ZoomOut className="w-3 h-3 mr-1" />
+            Reset Zoom
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-auto relative px-4 pb-4">
+        <canvas
+          ref={canvasRef}
+          className="cursor-pointer"
+          onClick={handleClick}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHovered(null)}
+        />
+        {hovered && (
+          <div
+            className="absolute pointer-events-none bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs font-mono z-10"
+            style={{ left: hovered.x + 28, top: hovered.y + 12 }}
+          >
+            <div className="text-blue-400">{frameLabel(hovered.frame.node)}</div>
+            <div className="text-cyan-400">
+              {formatDuration(frameWeight(hovered.frame.node))}
+              {zoomTotal > 0 && ` (${((frameWeight(hovered.frame.node) / zoomTotal) * 100).toFixed(1)}%)`}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ChevronRight, CornerLeftUp, Focus, X } from 'lucide-react';
+import { TreeNodeDisplay } from '../types';
+
+interface FocusBreadcrumbProps {
+  // Root of the focused subtree
+  node: TreeNodeDisplay;
+  // Re-root at another call, or null to show the whole trace again
+  onFocus: (nodeId: string | null) => void;
+}
+
+// Longer ancestor chains show their first and last few calls around a "…" that expands them
+const MAX_CRUMBS = 6;
+const LEADING_CRUMBS = 2;
+const TRAILING_CRUMBS = 3;
+
+function methodLabel(node: TreeNodeDisplay) {
+  return node.defined_class ? `${node.defined_class}#${node.method_name}` : node.method_name;
+}
+
+export function FocusBreadcrumb({ node, onFocus }: FocusBreadcrumbProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const ancestors: TreeNodeDisplay[] = [];
+  for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) ancestors.unshift(ancestor);
+
+  const collapsed = !showAll && ancestors.length > MAX_CRUMBS;
+  const leading = collapsed ? ancestors.slice(0, LEADING_CRUMBS) : ancestors;
+  const hidden = collapsed ? ancestors.slice(LEADING_CRUMBS, -TRAILING_CRUMBS) : [];
+  const trailing = collapsed ? ancestors.slice(-TRAILING_CRUMBS) : [];
+
+  const crumb = (ancestor: TreeNodeDisplay) => (
+    <React.Fragment key={ancestor.id}>
+      <button
+        onClick={() => onFocus(ancestor.id)}
+        className="font-mono text-gray-400 hover:text-white truncate max-w-[12rem]"
+        title={methodLabel(ancestor)}
+      >
+        {ancestor.method_name}
+      </button>
+      <ChevronRight className="w-3 h-3 text-gray-600 flex-shrink-0" />
+    </React.Fragment>
+  );
+
+  return (
+    <nav aria-label="Focused call" className="flex items-center gap-2 text-xs">
+      <span className="flex items-center text-blue-300 flex-shrink-0">
+        <Focus className="w-3 h-3 mr-1" />
+        Focus
+      </span>
+      <div className="flex items-center gap-1 min-w-0 flex-wrap">
+        <button onClick={() => onFocus(null)} className="text-gray-400 hover:text-white">
+          All calls
+        </button>
+        <ChevronRight className="w-3 h-3 text-gray-600 flex-shrink-0" />
+        {leading.map(crumb)}
+        {hidden.length > 0 && (
+          <>
+            <button
+              onClick={() => setShowAll(true)}
+              className="text-gray-500 hover:text-white"
+              title={hidden.map(methodLabel).join(' › ')}
+            >
+              …{hidden.length}
+            </button>
+            <ChevronRight className="w-3 h-3 text-gray-600 flex-shrink-0" />
+          </>
+        )}
+        {trailing.map(crumb)}
+        <span className="font-mono text-white truncate max-w-[16rem]" title={methodLabel(node)}>
+          {node.method_name}
+        </span>
+      </div>
+      <div className="ml-auto flex items-center gap-1 flex-shrink-0">
+        <button
+          onClick={() => onFocus(node.parent?.id ?? null)}
+          className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+          title="Up one level (u)"
+        >
+          <CornerLeftUp className="w-3 h-3 mr-1" />
+          Up
+        </button>
+        <button
+          onClick={() => onFocus(null)}
+          className="p-1 bg-gray-700 hover:bg-gray-600 rounded"
+          title="Leave focus mode"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Layers, Plus, X } from 'lucide-react';
+import { formatDuration } from '../utils/treeTransform';
+import { createFoldingRule, FoldingRule, FoldingRuleKind, getFoldingRuleError } from '../utils/folding';
+
+interface FoldingRulesPanelProps {
+  rules: FoldingRule[];
+  onRulesChange: (rules: FoldingRule[]) => void;
+  foldedCount: number;
+  libraryTime: number;
+}
+
+const KIND_LABELS: Record<FoldingRuleKind, { label: string; placeholder: string }> = {
+  path: { label: 'path', placeholder: '*/gems/*' },
+  class: { label: 'class', placeholder: '^ActiveSupport::' },
+};
+
+export function FoldingRulesPanel({ rules, onRulesChange, foldedCount, libraryTime }: FoldingRulesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [kind, setKind] = useState<FoldingRuleKind>('path');
+  const [pattern, setPattern] = useState('');
+
+  const enabledCount = rules.filter(rule => rule.enabled).length;
+  const draftError = pattern.trim() ? getFoldingRuleError(createFoldingRule(kind, pattern.trim())) : null;
+
+  const addRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim() || draftError) return;
+    onRulesChange([...rules, createFoldingRule(kind, pattern.trim())]);
+    setPattern('');
+  };
+
+  const updateRule = (id: string, changes: Partial<FoldingRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full p-4 flex items-center justify-between text-left"
+      >
+        <h3 className="text-lg font-semibold flex items-center">
+          <Layers className="w-5 h-5 mr-2" />
+          Folding
+        </h3>
+        <span className="flex items-center text-xs text-gray-400">
+          {enabledCount > 0 && <span className="mr-2 text-blue-300">{enabledCount} on</span>}
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 text-sm">
+          <p className="text-xs text-gray-400">
+            Matching calls are folded into their nearest visible caller, and their time shows there as library time.
+          </p>
+
+          <ul className="space-y-1 max-h-48 overflow-auto">
+            {rules.length === 0 && <li className="text-xs text-gray-500">No rules yet.</li>}
+            {rules.map(rule => {
+              const error = getFoldingRuleError(rule);
+              return (
+                <li key={rule.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    aria-label={`Fold ${rule.kind} ${rule.pattern}`}
+                  />
+                  <span className="text-[10px] text-gray-400 bg-gray-700 px-1 rounded flex-shrink-0">{KIND_LABELS[rule.kind].label}</span>
+                  <span
+                    className={`font-mono truncate flex-1 ${error ? 'text-red-400' : rule.enabled ? 'text-gray-200' : 'text-gray-500'}`}
+                    title={error ?? rule.pattern}
+                  >
+                    {rule.pattern}
+                  </span>
+                  <button
+                    onClick={() => onRulesChange(rules.filter(other => other.id !== rule.id))}
+                    className="text-gray-500 hover:text-white flex-shrink-0"
+                    title="Remove rule"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <form onSubmit={addRule} className="flex gap-1">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as FoldingRuleKind)}
+              className="bg-gray-900 border border-gray-700 rounded px-1 py-1 text-xs"
+              title="Glob on the source path, or regular expression on the class"
+            >
+              <option value="path">path</option>
+              <option value="class">class</option>
+            </select>
+            <input
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={KIND_LABELS[kind].placeholder}
+              className={`flex-1 min-w-0 bg-gray-900 border rounded px-2 py-1 text-xs font-mono focus:outline-none ${
+                draftError ? 'border-red-500' : 'border-gray-700 focus:border-blue-500'
+              }`}
+              title={draftError ?? undefined}
+            />
+            <button
+              type="submit"
+              disabled={!pattern.trim() || !!draftError}
+              className="px-2 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+              title="Add rule"
+            >
+              <Plus className="w-3 h-3" />
+            </button>
+          </form>
+
+          {foldedCount > 0 && (
+            <p className="text-xs text-gray-400">
+              {foldedCount.toLocaleString()} {foldedCount === 1 ? 'call' : 'calls'} folded · {formatDuration(libraryTime)} library time
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Radio } from 'lucide-react';
+import { LiveSourceConfig } from './LiveView';
+
+interface LiveConnectProps {
+  onConnect: (source: LiveSourceConfig) => void;
+}
+
+// Matches scripts/live-server.mjs
+const DEFAULT_URL = 'http://localhost:8787/events';
+const DEFAULT_MAX_NODES = 50000;
+
+export function LiveConnect({ onConnect }: LiveConnectProps) {
+  const [url, setUrl] = useState(DEFAULT_URL);
+  const [maxNodes, setMaxNodes] = useState(DEFAULT_MAX_NODES);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (url.trim()) onConnect({ url: url.trim(), maxNodes: Math.max(1, maxNodes) });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <form onSubmit={handleSubmit} className="border-2 border-dashed border-gray-600 rounded-lg p-8">
+        <div className="mb-4 text-center">
+          <Radio className="w-12 h-12 mx-auto text-gray-400" />
+        </div>
+        <h3 className="text-xl font-semibold mb-2 text-center">Live Trace</h3>
+        <p className="text-gray-400 mb-6 text-center">
+          Stream events from a running process over a WebSocket (<code>ws://</code>) or Server-Sent Events (<code>http://</code>) endpoint
+        </p>
+
+        <div className="space-y-4">
+          <label className="block text-sm text-gray-300">
+            Endpoint URL
+            <input
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              spellCheck={false}
+              className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm font-mono focus:outline-none focus:border-blue-500"
+            />
+          </label>
+          <label className="block text-sm text-gray-300">
+            Buffer limit (calls kept; the oldest are dropped first)
+            <input
+              type="number"
+              min={1}
+              value={maxNodes}
+              onChange={(e) => setMaxNodes(Number(e.target.value))}
+              className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+            />
+          </label>
+          <div className="text-center">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 rounded-md transition-colors"
+            >
+              <Radio className="w-4 h-4 mr-2" />
+              Connect
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
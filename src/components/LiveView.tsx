@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play, Radio, Unplug } from 'lucide-react';
+import { TraceMetadata, TreeNodeDisplay } from '../types';
+import { TreeView } from './TreeView';
+import { connectLive, LiveStatus } from '../utils/liveSource';
+import { createLiveTrace, LiveTraceStats } from '../utils/liveTrace';
+import { cloneTree } from '../utils/treeTransform';
+
+export interface LiveSourceConfig {
+  url: string;
+  maxNodes: number;
+}
+
+interface LiveViewProps {
+  source: LiveSourceConfig;
+  onDisconnect: () => void;
+}
+
+// Re-render at most this often however fast events arrive
+const FLUSH_INTERVAL_MS = 250;
+
+const STATUS_STYLES: Record<LiveStatus, { label: string; color: string }> = {
+  connecting: { label: 'Connecting', color: 'bg-yellow-400' },
+  open: { label: 'Live', color: 'bg-green-400' },
+  closed: { label: 'Disconnected', color: 'bg-gray-400' },
+  error: { label: 'Connection failed', color: 'bg-red-500' },
+};
+
+export function LiveView({ source, onDisconnect }: LiveViewProps) {
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  const [tree, setTree] = useState<TreeNodeDisplay[]>([]);
+  const [metadata, setMetadata] = useState<TraceMetadata | null>(null);
+  const [stats, setStats] = useState<LiveTraceStats>({ receivedCount: 0, skippedCount: 0, droppedCount: 0 });
+  const [paused, setPaused] = useState(false);
+  const [autoFollow, setAutoFollow] = useState(true);
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    const trace = createLiveTrace({ maxNodes: source.maxNodes });
+    let dirty = false;
+
+    const connection = connectLive(source.url, {
+      onStatus: setStatus,
+      onMessage: data => {
+        try {
+          trace.pushMessage(data);
+          dirty = true;
+        } catch (e) {
+          setError(e instanceof Error ? e.message : String(e));
+          connection.close();
+          setStatus('closed');
+        }
+      },
+    });
+
+    // Events keep flowing into the trace while paused; only the view stops updating
+    const timer = setInterval(() => {
+      if (!dirty) return;
+      setStats({ ...trace.stats });
+      if (pausedRef.current) return;
+      dirty = false;
+      setTree(trace.snapshot());
+      setMetadata({ ...trace.metadata });
+    }, FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      connection.close();
+    };
+  }, [source]);
+
+  // The builder keeps appending children and filling in returns on the nodes it handed
+  // out, so a paused view gets its own copy to stay frozen
+  const togglePaused = () => {
+    if (!paused) setTree(cloneTree);
+    setPaused(!paused);
+  };
+
+  const statusStyle = STATUS_STYLES[status];
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="mb-6 flex justify-between items-center flex-shrink-0 gap-4">
+        <div className="flex items-center gap-4 text-sm text-gray-400 min-w-0">
+          <span className="flex items-center flex-shrink-0">
+            <span className={`w-2 h-2 rounded-full mr-2 ${statusStyle.color} ${status === 'open' && !paused ? 'animate-pulse' : ''}`} />
+            <Radio className="w-4 h-4 mr-1" />
+            {paused ? 'Paused' : statusStyle.label}
+          </span>
+          <span className="font-mono truncate">{source.url}</span>
+          {metadata && <span className="flex-shrink-0">Version: {metadata.version}</span>}
+          <span className="flex-shrink-0">{stats.receivedCount.toLocaleString()} events</span>
+          {stats.skippedCount > 0 && (
+            <span className="text-yellow-400 flex-shrink-0">{stats.skippedCount.toLocaleString()} invalid skipped</span>
+          )}
+          {stats.droppedCount > 0 && (
+            <span className="flex-shrink-0" title={`Only the latest ${source.maxNodes.toLocaleString()} calls are kept`}>
+              {stats.droppedCount.toLocaleString()} dropped (buffer limit)
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <label className="flex items-center text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={autoFollow}
+              onChange={(e) => setAutoFollow(e.target.checked)}
+              className="mr-2"
+            />
+            Auto-follow
+          </label>
+          <button
+            onClick={togglePaused}
+            className="inline-flex items-center px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
+          >
+            {paused ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            onClick={onDisconnect}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-sm font-medium transition-colors"
+          >
+            <Unplug className="w-4 h-4 mr-1" />
+            Disconnect
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-900/50 border border-red-500 rounded-lg flex-shrink-0">
+          <p className="text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-hidden">
+        {tree.length > 0 ? (
+          <TreeView data={tree} live autoFollow={autoFollow && !paused} />
+        ) : (
+          <div className="p-8 text-center text-gray-400">Waiting for events...</div>
+        )}
+      </div>
+    </div>
+  );
+}
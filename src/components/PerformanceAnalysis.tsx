@@ -1,106 +1,177 @@
 import React, { useMemo } from 'react';
-import { Clock, TrendingUp, BarChart3, Zap, AlertTriangle } from 'lucide-react';
+import { Clock, TrendingUp, BarChart3, Zap, AlertTriangle, Timer, Repeat, GitFork, Copy } from 'lucide-react';
 import { TreeNodeDisplay } from '../types';
-import { formatDuration } from '../utils/treeTransform';
+import { formatDuration, formatDurationDelta, getSelfTime } from '../utils/treeTransform';
+import { analyzePerformance, MethodOutlier, MethodStats } from '../utils/performanceStats';
+import { CallPattern, detectCallPatterns } from '../utils/callPatterns';
+import { compareMethodStats, isMethodRegression } from '../utils/treeDiff';
+import { downloadFile, methodStatsToCsv } from '../utils/traceExport';
+import { ExportMenu } from './ExportMenu';
 
 interface PerformanceAnalysisProps {
   data: TreeNodeDisplay[];
   onNodeSelect: (nodeId: string) => void;
+  // Show a call in the Call Tree, for outliers; defaults to onNodeSelect
+  onNodeJump?: (nodeId: string) => void;
+  // In compare mode: the trace recorded before the change, and whether to rank regressions only
+  baselineData?: TreeNodeDisplay[];
+  regressionsOnly?: boolean;
 }
 
-interface MethodStats {
-  method_name: string;
-  class_name: string | null;
-  total_time: number;
-  call_count: number;
-  average_time: number;
-  max_time: number;
-  min_time: number;
-  node_ids: string[];
+// Per-method histogram of call durations, fastest bucket on the left
+function Sparkline({ histogram }: { histogram: number[] }) {
+  const peak = Math.max(...histogram, 1);
+  return (
+    <svg width={histogram.length * 4} height={16} className="flex-shrink-0" aria-hidden="true">
+      {histogram.map((count, i) => {
+        const height = count > 0 ? Math.max(2, (count / peak) * 16) : 0;
+        return <rect key={i} x={i * 4} y={16 - height} width={3} height={height} className="fill-cyan-600" />;
+      })}
+    </svg>
+  );
+}
+
+// Patterns listed per kind, and calls linked per pattern
+const MAX_PATTERNS = 10;
+const MAX_PATTERN_LINKS = 8;
+
+function describePattern(pattern: CallPattern): string {
+  const count = pattern.nodes.length;
+  switch (pattern.kind) {
+    case 'fan-out':
+      return `${count} calls · ${pattern.distinctArguments} distinct arguments`;
+    case 'sibling-run':
+      return pattern.distinctArguments === 1 ? `${count} in a row · same arguments` : `${count} in a row`;
+    case 'memoizable':
+      return `${count} calls · same arguments and result`;
+  }
 }
 
-export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisProps) {
+export function PerformanceAnalysis({ data, onNodeSelect, onNodeJump = onNodeSelect, baselineData, regressionsOnly = false }: PerformanceAnalysisProps) {
   const analysis = useMemo(() => {
-    const methodStats: { [key: string]: MethodStats } = {};
-    const allNodes: TreeNodeDisplay[] = [];
-
-    // Flatten all nodes
-    function collectNodes(nodes: TreeNodeDisplay[]) {
-      nodes.forEach(node => {
-        allNodes.push(node);
-        collectNodes(node.children);
-      });
-    }
-    collectNodes(data);
-
-    // Analyze each method
-    allNodes.forEach(node => {
-      if (!node.duration || node.duration <= 0) return;
-
-      const key = `${node.defined_class || 'Unknown'}#${node.method_name}`;
-
-      if (!methodStats[key]) {
-        methodStats[key] = {
-          method_name: node.method_name,
-          class_name: node.defined_class,
-          total_time: 0,
-          call_count: 0,
-          average_time: 0,
-          max_time: 0,
-          min_time: Infinity,
-          node_ids: []
-        };
-      }
-
-      const stats = methodStats[key];
-      stats.total_time += node.duration;
-      stats.call_count += 1;
-      stats.max_time = Math.max(stats.max_time, node.duration);
-      stats.min_time = Math.min(stats.min_time, node.duration);
-      stats.node_ids.push(node.id);
-    });
-
-    // Calculate averages
-    Object.values(methodStats).forEach(stats => {
-      stats.average_time = stats.total_time / stats.call_count;
-      if (stats.min_time === Infinity) stats.min_time = 0;
-    });
+    const summary = analyzePerformance(data);
+    const baseline = baselineData ? analyzePerformance(baselineData) : null;
+    const deltas = baseline ? compareMethodStats(summary.methods, baseline.methods) : null;
+
+    const methods = deltas && regressionsOnly
+      ? summary.methods.filter(stats => isMethodRegression(stats, deltas.get(stats.key)))
+      : summary.methods;
 
     // Sort by different criteria
-    const byTotalTime = Object.values(methodStats)
+    const byTotalTime = [...methods]
       .sort((a, b) => b.total_time - a.total_time)
       .slice(0, 10);
 
-    const byAverageTime = Object.values(methodStats)
+    const bySelfTime = [...methods]
+      .sort((a, b) => b.self_time - a.self_time)
+      .slice(0, 10);
+
+    const byAverageTime = methods
       .filter(s => s.call_count >= 1)
       .sort((a, b) => b.average_time - a.average_time)
       .slice(0, 10);
 
-    const byCallCount = Object.values(methodStats)
+    const byCallCount = [...methods]
       .sort((a, b) => b.call_count - a.call_count)
       .slice(0, 10);
 
-    const slowCalls = allNodes
-      .filter(n => n.duration && n.duration > 0)
-      .sort((a, b) => (b.duration || 0) - (a.duration || 0))
-      .slice(0, 15);
+    // Methods the baseline called and this trace doesn't; they can't be regressions
+    const removed = baseline && deltas && !regressionsOnly
+      ? baseline.methods
+        .filter(stats => deltas.get(stats.key)?.isRemoved)
+        .sort((a, b) => b.total_time - a.total_time)
+        .slice(0, 10)
+      : [];
 
-    const totalTime = allNodes.reduce((sum, n) => sum + (n.duration || 0), 0);
+    const outlierByNode = new Map<string, MethodOutlier & { stats: MethodStats }>(
+      summary.outliers.map(outlier => [outlier.node.id, outlier])
+    );
 
     return {
+      ...summary,
+      methods,
+      outlierByNode,
+      baselineTotalTime: baseline?.totalTime ?? null,
+      deltas,
       byTotalTime,
+      bySelfTime,
       byAverageTime,
       byCallCount,
-      slowCalls,
-      totalTime,
-      totalCalls: allNodes.length
+      removed
     };
-  }, [data]);
+  }, [data, baselineData, regressionsOnly]);
+
+  const patterns = useMemo(() => detectCallPatterns(data), [data]);
+
+  const PatternCard = ({ pattern }: { pattern: CallPattern }) => {
+    const [first] = pattern.nodes;
+    return (
+      <div
+        className="bg-gray-800 p-3 rounded-lg hover:bg-gray-700 cursor-pointer transition-colors"
+        onClick={() => onNodeJump(first.id)}
+      >
+        <div className="flex justify-between items-start mb-1">
+          <div className="min-w-0 flex-1">
+            <div className="font-mono text-sm text-blue-400 truncate">
+              {first.method_name}
+            </div>
+            {first.defined_class && (
+              <div className="text-xs text-gray-400 truncate">
+                {first.defined_class}
+              </div>
+            )}
+          </div>
+          <div className="text-cyan-400 text-sm flex-shrink-0 ml-2">
+            {formatDuration(pattern.totalTime)}
+          </div>
+        </div>
+        <div className="text-xs text-gray-400">{describePattern(pattern)}</div>
+        {pattern.parent && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onNodeJump(pattern.parent!.id);
+            }}
+            className="text-xs text-gray-500 hover:text-gray-300 font-mono truncate max-w-full"
+          >
+            in {pattern.parent.defined_class ? `${pattern.parent.defined_class}#` : ''}{pattern.parent.method_name}
+          </button>
+        )}
+        <div className="flex flex-wrap gap-1 mt-2">
+          {pattern.nodes.slice(0, MAX_PATTERN_LINKS).map((node, i) => (
+            <button
+              key={node.id}
+              onClick={(e) => {
+                e.stopPropagation();
+                onNodeJump(node.id);
+              }}
+              className="text-[10px] bg-gray-700 hover:bg-gray-600 text-gray-300 px-1.5 rounded"
+              title={formatDuration(node.duration || 0)}
+            >
+              #{i + 1}
+            </button>
+          ))}
+          {pattern.nodes.length > MAX_PATTERN_LINKS && (
+            <span className="text-[10px] text-gray-500">+{pattern.nodes.length - MAX_PATTERN_LINKS} more</span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const patternSections = [
+    { title: 'N+1 Fan-out', icon: GitFork, patterns: patterns.fanOuts, empty: 'No caller repeats a method over many different arguments.' },
+    { title: 'Repeated Sibling Calls', icon: Repeat, patterns: patterns.siblingRuns, empty: 'No method is called several times in a row.' },
+    { title: 'Memoization Candidates', icon: Copy, patterns: patterns.memoizable, empty: 'No calls repeat the same arguments and result.' },
+  ];
+
+  // Removed methods come from the baseline, so their calls aren't in this tree to select
+  const isRemovedMethod = (stats: MethodStats) => analysis.deltas?.get(stats.key)?.isRemoved ?? false;
 
   const MethodCard = ({ stats, type }: { stats: MethodStats; type: string }) => (
     <div
-      className="bg-gray-800 p-3 rounded-lg hover:bg-gray-700 cursor-pointer transition-colors"
-      onClick={() => stats.node_ids[0] && onNodeSelect(stats.node_ids[0])}
+      className={`bg-gray-800 p-3 rounded-lg transition-colors ${isRemovedMethod(stats) ? '' : 'hover:bg-gray-700 cursor-pointer'}`}
+      onClick={() => !isRemovedMethod(stats) && stats.node_ids[0] && onNodeSelect(stats.node_ids[0])}
     >
       <div className="flex justify-between items-start mb-2">
         <div className="min-w-0 flex-1">
@@ -121,20 +192,54 @@ export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisP
       <div className="flex justify-between items-center text-xs">
         <span className="text-gray-400">
           {type === 'total' && `Total: ${formatDuration(stats.total_time)}`}
+          {type === 'self' && `Self: ${formatDuration(stats.self_time)} (${stats.total_time > 0 ? Math.round((stats.self_time / stats.total_time) * 100) : 0}% of total)`}
+          {type === 'self' && stats.library_time > 0 && ` · ${formatDuration(stats.library_time)} in libraries`}
           {type === 'average' && `Avg: ${formatDuration(stats.average_time)}`}
           {type === 'calls' && `${stats.call_count} calls`}
         </span>
         <span className="text-cyan-400">
-          {formatDuration(type === 'average' ? stats.average_time : stats.total_time)}
+          {formatDuration(type === 'average' ? stats.average_time : type === 'self' ? stats.self_time : stats.total_time)}
         </span>
       </div>
 
-      {type === 'average' && stats.max_time > stats.average_time * 2 && (
-        <div className="flex items-center mt-1 text-xs text-yellow-400">
-          <AlertTriangle className="w-3 h-3 mr-1" />
-          High variance
+      {analysis.deltas && (() => {
+        const delta = analysis.deltas.get(stats.key);
+        if (!delta) return null;
+        const regressed = isMethodRegression(stats, delta);
+        return (
+          <div className={`flex justify-between items-center mt-1 text-xs ${regressed ? 'text-red-400' : 'text-green-400'}`}>
+            <span>
+              {delta.isNew ? 'New in this trace' : delta.isRemoved ? 'Not called in this trace' : `${formatDurationDelta(delta.durationDelta)} vs baseline`}
+            </span>
+            {!delta.isNew && delta.callDelta !== 0 && (
+              <span>{delta.callDelta > 0 ? '+' : ''}{delta.callDelta} calls</span>
+            )}
+          </div>
+        );
+      })()}
+
+      {stats.call_count > 1 && (
+        <div className="flex items-center justify-between gap-2 mt-2 text-xs text-gray-500">
+          <span className="truncate" title="Median, 90th and 99th percentile call duration">
+            p50 {formatDuration(stats.distribution.p50)} · p90 {formatDuration(stats.distribution.p90)} · p99 {formatDuration(stats.distribution.p99)}
+          </span>
+          <Sparkline histogram={stats.distribution.histogram} />
         </div>
       )}
+
+      {stats.distribution.outliers.length > 0 && !isRemovedMethod(stats) && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onNodeJump(stats.distribution.outliers[0].node.id);
+          }}
+          className="flex items-center mt-1 text-xs text-yellow-400 hover:text-yellow-300"
+          title="Show the slowest outlier in the Call Tree"
+        >
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {stats.distribution.outliers.length} outlier {stats.distribution.outliers.length === 1 ? 'call' : 'calls'}, up to {formatDuration(stats.distribution.outliers[0].duration)}
+        </button>
+      )}
     </div>
   );
 
@@ -160,11 +265,11 @@ export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisP
       </div>
 
       <div className="flex items-center justify-between text-xs text-gray-500">
-        <span>Depth: {node.depth}</span>
-        {(node.duration || 0) > analysis.totalTime * 0.1 && (
-          <div className="flex items-center text-red-400">
+        <span>Depth: {node.depth} · Self: {formatDuration(getSelfTime(node))}</span>
+        {analysis.outlierByNode.has(node.id) && (
+          <div className="flex items-center text-red-400" title="Well above this method's usual duration (over Q3 + 1.5 × IQR)">
             <Zap className="w-3 h-3 mr-1" />
-            Hotspot
+            Outlier
           </div>
         )}
       </div>
@@ -173,16 +278,45 @@ export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisP
 
   return (
     <div className="space-y-6">
+      <div className="flex justify-end">
+        <ExportMenu
+          options={[{
+            label: 'Method stats (CSV)',
+            disabled: analysis.methods.length === 0,
+            onSelect: () => downloadFile(
+              methodStatsToCsv([...analysis.methods].sort((a, b) => b.total_time - a.total_time)),
+              'method-stats.csv',
+              'text/csv'
+            ),
+          }]}
+        />
+      </div>
+
       {/* Summary Stats */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="bg-gray-800 p-4 rounded-lg">
           <div className="flex items-center mb-2">
             <Clock className="w-4 h-4 mr-2 text-blue-400" />
-            <span className="text-sm text-gray-400">Total Time</span>
+            <span className="text-sm text-gray-400">Wall-clock Time</span>
           </div>
           <div className="text-lg font-mono text-white">
             {formatDuration(analysis.totalTime)}
           </div>
+          {analysis.baselineTotalTime !== null && (
+            <div className={`text-xs ${analysis.totalTime > analysis.baselineTotalTime ? 'text-red-400' : 'text-green-400'}`}>
+              {formatDurationDelta(analysis.totalTime - analysis.baselineTotalTime)} vs baseline
+            </div>
+          )}
+        </div>
+
+        <div className="bg-gray-800 p-4 rounded-lg">
+          <div className="flex items-center mb-2">
+            <Timer className="w-4 h-4 mr-2 text-purple-400" />
+            <span className="text-sm text-gray-400">Total Self Time</span>
+          </div>
+          <div className="text-lg font-mono text-white">
+            {formatDuration(analysis.totalSelfTime)}
+          </div>
         </div>
 
         <div className="bg-gray-800 p-4 rounded-lg">
@@ -201,7 +335,7 @@ export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisP
             <span className="text-sm text-gray-400">Avg/Call</span>
           </div>
           <div className="text-lg font-mono text-white">
-            {formatDuration(analysis.totalTime / analysis.totalCalls)}
+            {formatDuration(analysis.averageCallTime)}
           </div>
         </div>
 
@@ -231,6 +365,48 @@ export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisP
           </div>
         </div>
 
+        {/* Calls far slower than other calls of the same method */}
+        <div>
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2 text-yellow-400" />
+            Outlier Calls
+          </h3>
+          <div className="space-y-2 max-h-80 overflow-auto">
+            {analysis.outliers.length === 0 && (
+              <p className="text-sm text-gray-500">No call stands out from the other calls of its method.</p>
+            )}
+            {analysis.outliers.slice(0, 15).map(outlier => (
+              <div
+                key={outlier.node.id}
+                className="bg-gray-800 p-3 rounded-lg hover:bg-gray-700 cursor-pointer transition-colors"
+                onClick={() => onNodeJump(outlier.node.id)}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="font-mono text-sm text-blue-400 truncate">
+                      {outlier.node.method_name}
+                    </div>
+                    {outlier.node.defined_class && (
+                      <div className="text-xs text-gray-400 truncate">
+                        {outlier.node.defined_class}
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-cyan-400 text-sm flex-shrink-0">
+                    {formatDuration(outlier.duration)}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    {outlier.stats.distribution.p50 > 0 && `${(outlier.duration / outlier.stats.distribution.p50).toFixed(1)}× p50 of ${outlier.stats.call_count} calls`}
+                  </span>
+                  <span className="text-yellow-400">z = {outlier.zScore.toFixed(1)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Highest Total Time */}
         <div>
           <h3 className="text-lg font-semibold mb-4 flex items-center">
@@ -244,6 +420,19 @@ export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisP
           </div>
         </div>
 
+        {/* Highest Self Time */}
+        <div>
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <Timer className="w-5 h-5 mr-2 text-purple-400" />
+            Top by Self Time
+          </h3>
+          <div className="space-y-2 max-h-80 overflow-auto">
+            {analysis.bySelfTime.map((stats, i) => (
+              <MethodCard key={`self-${i}`} stats={stats} type="self" />
+            ))}
+          </div>
+        </div>
+
         {/* Slowest Average Time */}
         <div>
           <h3 className="text-lg font-semibold mb-4 flex items-center">
@@ -269,6 +458,47 @@ export function PerformanceAnalysis({ data, onNodeSelect }: PerformanceAnalysisP
             ))}
           </div>
         </div>
+
+        {analysis.removed.length > 0 && (
+          <div>
+            <h3 className="text-lg font-semibold mb-4 flex items-center">
+              <Clock className="w-5 h-5 mr-2 text-gray-400" />
+              Removed Since Baseline
+            </h3>
+            <div className="space-y-2 max-h-80 overflow-auto">
+              {analysis.removed.map((stats, i) => (
+                <MethodCard key={`removed-${i}`} stats={stats} type="total" />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Repeated calls: N+1 loops, back-to-back calls and recomputed results */}
+        <div className="lg:col-span-2">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <Repeat className="w-5 h-5 mr-2 text-orange-400" />
+            Patterns
+          </h3>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {patternSections.map(section => (
+              <div key={section.title}>
+                <h4 className="text-sm font-semibold text-gray-300 mb-2 flex items-center">
+                  <section.icon className="w-4 h-4 mr-1 text-orange-400" />
+                  {section.title}
+                  <span className="ml-1 text-gray-500 font-normal">({section.patterns.length})</span>
+                </h4>
+                <div className="space-y-2 max-h-80 overflow-auto">
+                  {section.patterns.length === 0 && (
+                    <p className="text-sm text-gray-500">{section.empty}</p>
+                  )}
+                  {section.patterns.slice(0, MAX_PATTERNS).map(pattern => (
+                    <PatternCard key={`${pattern.kind}-${pattern.nodes[0].id}`} pattern={pattern} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { CompletionSource, getCompletions, QueryCompletion, QueryError } from '../utils/query';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: QueryError[];
+  completionSource: CompletionSource;
+  placeholder?: string;
+  className?: string;
+  // Enter (or Shift+Enter) when no completion is open
+  onSubmit?: (backwards: boolean) => void;
+}
+
+export const QueryInput = React.forwardRef<HTMLInputElement, QueryInputProps>(function QueryInput(
+  { value, onChange, errors, completionSource, placeholder, className = '', onSubmit },
+  ref
+) {
+  const [cursor, setCursor] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  React.useImperativeHandle(ref, () => inputRef.current!);
+
+  const completions = useMemo(
+    () => (isFocused && !dismissed ? getCompletions(value, cursor, completionSource) : []),
+    [value, cursor, completionSource, isFocused, dismissed]
+  );
+
+  const applyCompletion = useCallback((completion: QueryCompletion) => {
+    const next = value.slice(0, completion.replaceStart) + completion.insertText + value.slice(completion.replaceEnd);
+    const nextCursor = completion.replaceStart + completion.insertText.length;
+    onChange(next);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  }, [value, onChange]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (completions.length === 0) {
+      if (e.key === 'Enter' && onSubmit) {
+        e.preventDefault();
+        onSubmit(e.shiftKey);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(i => (i + 1) % completions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(i => (i - 1 + completions.length) % completions.length);
+        break;
+      case 'Tab':
+      case 'Enter':
+        e.preventDefault();
+        applyCompletion(completions[Math.min(activeIndex, completions.length - 1)]);
+        break;
+      case 'Escape':
+        setDismissed(true);
+        break;
+    }
+  }, [completions, activeIndex, applyCompletion, onSubmit]);
+
+  const syncCursor = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        spellCheck={false}
+        onChange={(e) => {
+          onChange(e.target.value);
+          syncCursor(e);
+          setActiveIndex(0);
+          setDismissed(false);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCursor}
+        onClick={syncCursor}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        className={`w-full px-3 py-1 bg-gray-700 border rounded text-sm font-mono focus:outline-none ${
+          errors.length > 0 ? 'border-red-500' : 'border-gray-600 focus:border-blue-500'
+        }`}
+      />
+
+      {completions.length > 0 && (
+        <div className="absolute left-0 right-0 mt-1 bg-gray-900 border border-gray-600 rounded shadow-lg z-20 max-h-64 overflow-auto">
+          {completions.map((completion, i) => (
+            <div
+              key={`${completion.label}-${i}`}
+              // mousedown so the input doesn't lose focus first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applyCompletion(completion);
+              }}
+              className={`flex justify-between px-3 py-1 text-sm cursor-pointer ${
+                i === activeIndex ? 'bg-gray-700' : 'hover:bg-gray-800'
+              }`}
+            >
+              <span className="font-mono text-blue-400 truncate">{completion.label}</span>
+              <span className="text-xs text-gray-500 ml-3 flex-shrink-0">{completion.detail}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-1 space-y-0.5">
+          {errors.map((error, i) => (
+            <div key={i} className="flex items-center text-xs text-red-400">
+              <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+              <span className="font-mono text-red-300 mr-2">{value.slice(error.start, error.end)}</span>
+              {error.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExternalLink, FolderOpen, Settings } from 'lucide-react';
+import { SourceBundle } from '../types';
+import {
+  getSourceWindow,
+  isDirectoryPickerSupported,
+  pickSourceDirectory,
+  readSourceFile,
+  SourceRoot,
+  sourceRootFromDrop,
+  sourceRootFromFiles,
+  SourceWindow,
+} from '../utils/sourceFiles';
+import { highlightRubyLine, RubyTokenType } from '../utils/rubyHighlight';
+import { buildEditorUrl, EDITOR_PRESETS, getEditorTemplate, setEditorTemplate } from '../utils/editorLinks';
+
+interface SourcePreviewProps {
+  path: string;
+  line: number | null;
+  sources: SourceBundle | null;
+  sourceRoot: SourceRoot | null;
+  onSourceRootChange: (root: SourceRoot) => void;
+}
+
+const TOKEN_COLORS: Record<RubyTokenType, string> = {
+  keyword: 'text-pink-400',
+  string: 'text-green-300',
+  comment: 'text-gray-500 italic',
+  number: 'text-orange-300',
+  symbol: 'text-cyan-300',
+  constant: 'text-yellow-300',
+  variable: 'text-blue-300',
+  text: 'text-gray-300',
+};
+
+// Select value for a template typed in by hand
+const CUSTOM_TEMPLATE = 'custom';
+
+type SourceState =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'found'; window: SourceWindow };
+
+export function SourcePreview({ path, line, sources, sourceRoot, onSourceRootChange }: SourcePreviewProps) {
+  const [source, setSource] = useState<SourceState>({ status: 'loading' });
+  const [editorTemplate, setEditorTemplateState] = useState(() => getEditorTemplate());
+  const [showSettings, setShowSettings] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const codeRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource({ status: 'loading' });
+    readSourceFile(path, sources, sourceRoot).then(text => {
+      if (cancelled) return;
+      setSource(text === null ? { status: 'missing' } : { status: 'found', window: getSourceWindow(text, line ?? 1) });
+    }, () => {
+      if (!cancelled) setSource({ status: 'missing' });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path, line, sources, sourceRoot]);
+
+  // Keep the definition line in view when the method is longer than the panel
+  useEffect(() => {
+    if (codeRef.current && highlightRef.current) {
+      codeRef.current.scrollTop = Math.max(0, highlightRef.current.offsetTop - codeRef.current.clientHeight / 3);
+    }
+  }, [source]);
+
+  const isPresetTemplate = EDITOR_PRESETS.some(preset => preset.template === editorTemplate);
+
+  const updateEditorTemplate = (template: string | null) => {
+    setEditorTemplate(template);
+    setEditorTemplateState(template);
+  };
+
+  const chooseFolder = async () => {
+    try {
+      const root = await pickSourceDirectory();
+      if (root) onSourceRootChange(root);
+    } catch (error) {
+      alert(`Could not open folder: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const root = sourceRootFromDrop(e.dataTransfer.items);
+    if (root) onSourceRootChange(root);
+  };
+
+  // `webkitdirectory` isn't in React's input attributes
+  const setDirectoryInput = (input: HTMLInputElement | null) => {
+    input?.setAttribute('webkitdirectory', '');
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`rounded ${isDragOver ? 'ring-2 ring-blue-500' : ''}`}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-sm font-medium text-gray-400">Source</label>
+        <div className="flex items-center gap-2 text-xs">
+          {editorTemplate && (
+            <a
+              href={buildEditorUrl(editorTemplate, path, line)}
+              className="flex items-center text-blue-400 hover:text-blue-300"
+            >
+              <ExternalLink className="w-3 h-3 mr-1" />
+              Open in editor
+            </a>
+          )}
+          <button
+            onClick={() => setShowSettings(show => !show)}
+            className="text-gray-500 hover:text-gray-300"
+            title="Editor link settings"
+          >
+            <Settings className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      {showSettings && (
+        <div className="mb-2 p-2 bg-gray-900 rounded space-y-2 text-xs">
+          <select
+            value={isPresetTemplate ? editorTemplate! : editorTemplate ? CUSTOM_TEMPLATE : ''}
+            onChange={(e) => updateEditorTemplate(e.target.value || null)}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1"
+          >
+            <option value="">No editor link</option>
+            {EDITOR_PRESETS.map(preset => (
+              <option key={preset.label} value={preset.template}>{preset.label}</option>
+            ))}
+            {editorTemplate && !isPresetTemplate && <option value={CUSTOM_TEMPLATE} disabled>Custom</option>}
+          </select>
+          <input
+            value={editorTemplate ?? ''}
+            onChange={(e) => updateEditorTemplate(e.target.value || null)}
+            placeholder="vscode://file/{path}:{line}"
+            className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 font-mono"
+          />
+          <p className="text-gray-500">
+            <code>{'{path}'}</code> is the path from the trace, <code>{'{line}'}</code> the line number.
+          </p>
+        </div>
+      )}
+
+      {source.status === 'found' ? (
+        <div ref={codeRef} className="relative bg-gray-900 rounded max-h-72 overflow-auto text-xs font-mono py-1">
+          {source.window.lines.map((text, i) => {
+            const number = source.window.startLine + i;
+            const isDefinition = number === line;
+            const inMethod = line !== null && source.window.methodEndLine !== null && number > line && number <= source.window.methodEndLine;
+            return (
+              <div
+                key={number}
+                ref={isDefinition ? highlightRef : undefined}
+                className={`flex whitespace-pre ${isDefinition ? 'bg-yellow-500/20' : inMethod ? 'bg-gray-800/60' : ''}`}
+              >
+                <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-600 select-none">{number}</span>
+                <span>
+                  {highlightRubyLine(text).map((token, j) => (
+                    <span key={j} className={TOKEN_COLORS[token.type]}>{token.text}</span>
+                  ))}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      ) : source.status === 'missing' ? (
+        <div className="bg-gray-900 rounded p-3 text-xs text-gray-400 space-y-2">
+          <p>
+            {sourceRoot
+              ? `Not found in ${sourceRoot.name}/.`
+              : 'Choose your project folder or drop it here to preview the source.'}
+          </p>
+          {isDirectoryPickerSupported() ? (
+            <button
+              onClick={chooseFolder}
+              className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-200"
+            >
+              <FolderOpen className="w-3 h-3 mr-1" />
+              {sourceRoot ? 'Choose another folder' : 'Choose folder'}
+            </button>
+          ) : (
+            <label className="inline-flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-200 cursor-pointer">
+              <FolderOpen className="w-3 h-3 mr-1" />
+              {sourceRoot ? 'Choose another folder' : 'Choose folder'}
+              <input
+                ref={setDirectoryInput}
+                type="file"
+                className="hidden"
+                onChange={(e) => {
+                  const root = e.target.files && sourceRootFromFiles(e.target.files);
+                  if (root) onSourceRootChange(root);
+                }}
+              />
+            </label>
+          )}
+        </div>
+      ) : (
+        <div className="bg-gray-900 rounded p-3 text-xs text-gray-500">Loading source…</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomOut } from 'lucide-react';
+import { TimeRange, TreeNodeDisplay } from '../types';
+import { formatDuration } from '../utils/treeTransform';
+import { getTimeBounds, niceTickStep, selfTimeGaps } from '../utils/timeline';
+
+interface TimelineProps {
+  data: TreeNodeDisplay[];
+  selectedNodeId: string | null;
+  timeRange: TimeRange | null;
+  onTimeRangeChange: (range: TimeRange | null) => void;
+  onNodeSelect: (nodeId: string) => void;
+}
+
+type DragState =
+  | { kind: 'pan'; startX: number; view: TimeRange; moved: boolean }
+  | { kind: 'brush'; startX: number; currentX: number };
+
+const AXIS_HEIGHT = 24;
+const LANE_HEIGHT = 22;
+const GAP_MARKER_HEIGHT = 3;
+const MIN_SPAN = 1e-6; // 1μs
+// Epoch-second timestamps only resolve to a fraction of a microsecond, so the narrowest view
+// keeps this many representable steps of the trace's start time across it
+const MIN_SPAN_ULPS = 1000;
+const ZOOM_FACTOR = 1.2;
+const LABEL_MIN_WIDTH_PX = 40;
+const CHAR_WIDTH_PX = 7.2;
+
+const LANE_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ec4899', '#06b6d4', '#ef4444'];
+
+export function Timeline({ data, selectedNodeId, timeRange, onTimeRangeChange, onNodeSelect }: TimelineProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<TimeRange | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [hovered, setHovered] = useState<{ node: TreeNodeDisplay; x: number; y: number } | null>(null);
+
+  const bounds = useMemo(() => getTimeBounds(data), [data]);
+
+  const minSpan = useMemo(
+    () => Math.max(MIN_SPAN, Math.abs(bounds?.start ?? 0) * Number.EPSILON * MIN_SPAN_ULPS),
+    [bounds]
+  );
+
+  // Nodes grouped into one lane per depth, each in start order
+  const lanes = useMemo(() => {
+    const result: TreeNodeDisplay[][] = [];
+    const pending = [...data];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      if (node.start_time !== null) {
+        (result[node.depth] ??= []).push(node);
+      }
+      for (const child of node.children) pending.push(child);
+    }
+    return Array.from(result, lane => (lane ?? []).sort((a, b) => a.start_time! - b.start_time!));
+  }, [data]);
+
+  // Filled in as calls are first drawn wide enough to show their gaps
+  const gapCache = useMemo(() => new Map<TreeNodeDisplay, TimeRange[]>(), [data]);
+
+  useEffect(() => {
+    setView(bounds);
+  }, [bounds]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const timeToX = useCallback((time: number) => {
+    if (!view) return 0;
+    return ((time - view.start) / (view.end - view.start)) * width;
+  }, [view, width]);
+
+  const xToTime = useCallback((x: number) => {
+    if (!view) return 0;
+    return view.start + (x / width) * (view.end - view.start);
+  }, [view, width]);
+
+  const height = AXIS_HEIGHT + Math.max(lanes.length, 1) * LANE_HEIGHT;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0 || !view || !bounds) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = '11px "JetBrains Mono", monospace';
+    ctx.textBaseline = 'middle';
+
+    // Time axis, labelled relative to the start of the trace. Ticks are counted from there
+    // rather than accumulated, since adding a small step to an epoch time can round it away.
+    const step = niceTickStep(Math.max(view.end - view.start, minSpan), width / 100);
+    ctx.fillStyle = '#9ca3af';
+    ctx.strokeStyle = '#374151';
+    ctx.lineWidth = 1;
+    for (let i = Math.ceil((view.start - bounds.start) / step); bounds.start + i * step <= view.end; i++) {
+      const tick = bounds.start + i * step;
+      const x = Math.round(timeToX(tick)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, AXIS_HEIGHT - 6);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+      ctx.fillText(`+${formatDuration(tick - bounds.start)}`, x + 3, AXIS_HEIGHT / 2);
+    }
+
+    lanes.forEach((lane, depth) => {
+      const y = AXIS_HEIGHT + depth * LANE_HEIGHT;
+      const color = LANE_COLORS[depth % LANE_COLORS.length];
+
+      for (const node of lane) {
+        const start = node.start_time!;
+        const end = node.end_time ?? start;
+        if (end < view.start || start > view.end) continue;
+
+        const x = timeToX(start);
+        const barWidth = Math.max(timeToX(end) - x, 1);
+
+        ctx.fillStyle = color;
+        ctx.globalAlpha = node.status ? 0.5 : 0.85;
+        ctx.fillRect(x, y + 1, barWidth, LANE_HEIGHT - 2);
+        ctx.globalAlpha = 1;
+
+        // Gap markers: time inside this call not covered by any traced child
+        if (barWidth >= 4) {
+          ctx.fillStyle = '#fde047';
+          let gaps = gapCache.get(node);
+          if (!gaps) {
+            gaps = selfTimeGaps(node);
+            gapCache.set(node, gaps);
+          }
+          for (const gap of gaps) {
+            const gx = timeToX(gap.start);
+            const gw = timeToX(gap.end) - gx;
+            if (gw >= 1) {
+              ctx.fillRect(gx, y + LANE_HEIGHT - 1 - GAP_MARKER_HEIGHT, gw, GAP_MARKER_HEIGHT);
+            }
+          }
+        }
+
+        if (node.id === selectedNodeId) {
+          ctx.strokeStyle = '#ffffff';
+          ctx.lineWidth = 2;
+          ctx.strokeRect(x + 1, y + 2, Math.max(barWidth - 2, 1), LANE_HEIGHT - 4);
+        }
+
+        if (barWidth >= LABEL_MIN_WIDTH_PX) {
+          const visibleX = Math.max(x, 0);
+          const visibleWidth = Math.min(x + barWidth, width) - visibleX;
+          const maxChars = Math.floor((visibleWidth - 8) / CHAR_WIDTH_PX);
+          if (maxChars > 1) {
+            const label = node.method_name;
+            ctx.fillStyle = '#111827';
+            ctx.fillText(
+              label.length > maxChars ? `${label.slice(0, maxChars - 1)}…` : label,
+              visibleX + 4,
+              y + LANE_HEIGHT / 2 - 1
+            );
+          }
+        }
+      }
+    });
+
+    // Time-range brush
+    const brush = drag?.kind === 'brush'
+      ? { start: xToTime(Math.min(drag.startX, drag.currentX)), end: xToTime(Math.max(drag.startX, drag.currentX)) }
+      : timeRange;
+    if (brush) {
+      const bx = timeToX(brush.start);
+      const bw = Math.max(timeToX(brush.end) - bx, 1);
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.2)';
+      ctx.fillRect(bx, 0, bw, height);
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(bx + 0.5, 0.5, bw - 1, height - 1);
+    }
+  }, [lanes, gapCache, view, bounds, minSpan, width, height, timeToX, xToTime, selectedNodeId, timeRange, drag]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!view || !bounds) return;
+      e.preventDefault();
+
+      const rect = canvas.getBoundingClientRect();
+      const anchor = xToTime(e.clientX - rect.left);
+      const factor = e.deltaY > 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR;
+      const span = Math.min(
+        Math.max((view.end - view.start) * factor, minSpan),
+        Math.max(bounds.end - bounds.start, minSpan)
+      );
+      const ratio = (anchor - view.start) / (view.end - view.start);
+      setView({ start: anchor - span * ratio, end: anchor - span * ratio + span });
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [view, bounds, minSpan, xToTime]);
+
+  const nodeAt = useCallback((x: number, y: number): TreeNodeDisplay | null => {
+    const depth = Math.floor((y - AXIS_HEIGHT) / LANE_HEIGHT);
+    const lane = lanes[depth];
+    if (!lane) return null;
+
+    const time = xToTime(x);
+    // Allow a couple of pixels of slack so sub-pixel calls can still be picked
+    const slack = xToTime(x + 2) - time;
+
+    // Past the last call starting by then; calls at one depth don't overlap, so only
+    // that call, or the one before it through the slack, can still be running
+    let low = 0;
+    let high = lane.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (lane[mid].start_time! - slack <= time) low = mid + 1;
+      else high = mid;
+    }
+    for (let i = low - 1; i >= Math.max(low - 2, 0); i--) {
+      if ((lane[i].end_time ?? lane[i].start_time!) + slack >= time) return lane[i];
+    }
+    return null;
+  }, [lanes, xToTime]);
+
+  const handleMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!view) return;
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    setDrag(e.shiftKey
+      ? { kind: 'brush', startX: x, currentX: x }
+      : { kind: 'pan', startX: x, view, moved: false });
+  }, [view]);
+
+  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+
+    if (drag?.kind === 'pan') {
+      const dx = x - drag.startX;
+      if (Math.abs(dx) > 2 || drag.moved) {
+        const shift = (dx / width) * (drag.view.end - drag.view.start);
+        setView({ start: drag.view.start - shift, end: drag.view.end - shift });
+        if (!drag.moved) setDrag({ ...drag, moved: true });
+      }
+    } else if (drag?.kind === 'brush') {
+      setDrag({ ...drag, currentX: x });
+    }
+
+    const node = nodeAt(x, y);
+    setHovered(node ? { node, x, y } : null);
+  }, [drag, width, nodeAt]);
+
+  const handleMouseUp = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+
+    if (drag?.kind === 'brush' && Math.abs(x - drag.startX) > 3) {
+      onTimeRangeChange({
+        start: xToTime(Math.min(drag.startX, x)),
+        end: xToTime(Math.max(drag.startX, x)),
+      });
+    } else if (drag?.kind === 'pan' && !drag.moved) {
+      const node = nodeAt(x, y);
+      if (node) onNodeSelect(node.id);
+    }
+    setDrag(null);
+  }, [drag, xToTime, nodeAt, onTimeRangeChange, onNodeSelect]);
+
+  if (!bounds) {
+    return (
+      <div className="p-4 text-center text-gray-400">
+        No timing information in this trace
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex justify-between items-center px-4 py-2 text-sm text-gray-400 flex-shrink-0">
+        <span>
+          Drag to pan · scroll to zoom · shift+drag to filter the Call Tree by time
+          {view && <span className="ml-3 text-cyan-400">{formatDuration(view.end - view.start)} visible</span>}
+        </span>
+        <div className="flex gap-2 flex-shrink-0">
+          {timeRange && (
+            <button
+              onClick={() => onTimeRangeChange(null)}
+              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+            >
+              Clear Range
+            </button>
+          )}
+          <button
+            onClick={() => setView(bounds)}
+            className="flex items-center px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+          >
+            <ZoomOut className="w-3 h-3 mr-1" />
+            Reset Zoom
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-auto relative px-4 pb-4">
+        <canvas
+          ref={canvasRef}
+          className={drag?.kind === 'pan' && drag.moved ? 'cursor-grabbing' : 'cursor-crosshair'}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => {
+            setDrag(null);
+            setHovered(null);
+          }}
+        />
+        {hovered && !drag && (
+          <div
+            className="absolute pointer-events-none bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs font-mono z-10"
+            style={{ left: hovered.x + 28, top: hovered.y + 12 }}
+          >
+            <div className="text-blue-400">
+              {hovered.node.defined_class ? `${hovered.node.defined_class}#` : ''}{hovered.node.method_name}
+            </div>
+            <div className="text-gray-400">
+              +{formatDuration(hovered.node.start_time! - bounds.start)}
+              <span className="text-cyan-400 ml-2">{formatDuration(hovered.node.duration)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FolderOpen, HardDrive, Library, Pencil, Plus, Tag, Trash2, X } from 'lucide-react';
+import { formatBytes, formatDuration } from '../utils/treeTransform';
+import {
+  deleteTrace,
+  getStorageUsage,
+  listTraces,
+  openTrace,
+  renameTrace,
+  setTraceTags,
+  StorageUsage,
+  TraceLibraryEntry,
+} from '../utils/traceLibrary';
+
+interface TraceLibraryProps {
+  onOpen: (source: Blob) => void;
+  disabled: boolean;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export function TraceLibrary({ onOpen, disabled }: TraceLibraryProps) {
+  const [entries, setEntries] = useState<TraceLibraryEntry[] | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  // Set by Escape so the blur that ends the edit doesn't save it
+  const renameCancelledRef = useRef(false);
+  const [tagging, setTagging] = useState<{ id: string; tag: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextEntries, nextUsage] = await Promise.all([listTraces(), getStorageUsage()]);
+      setEntries(nextEntries);
+      setUsage(nextUsage);
+    } catch {
+      // IndexedDB can be unavailable (e.g. some private browsing modes); just hide the library
+      setEntries([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const replaceEntry = (entry: TraceLibraryEntry) => {
+    setEntries(prev => prev && prev.map(e => (e.id === entry.id ? entry : e)));
+  };
+
+  const handleOpen = async (entry: TraceLibraryEntry) => {
+    try {
+      onOpen(await openTrace(entry.id));
+    } catch (error) {
+      alert(`Failed to open trace: ${errorMessage(error)}`);
+      refresh();
+    }
+  };
+
+  const handleDelete = async (entry: TraceLibraryEntry) => {
+    if (!confirm(`Delete "${entry.name}" from the library?`)) return;
+    try {
+      await deleteTrace(entry.id);
+    } catch (error) {
+      alert(`Failed to delete trace: ${errorMessage(error)}`);
+    }
+    refresh();
+  };
+
+  const commitRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (renameCancelledRef.current) {
+      renameCancelledRef.current = false;
+      return;
+    }
+    if (!name) return;
+    try {
+      replaceEntry(await renameTrace(renaming.id, name));
+    } catch (error) {
+      alert(`Failed to rename trace: ${errorMessage(error)}`);
+    }
+  };
+
+  const updateTags = async (entry: TraceLibraryEntry, tags: string[]) => {
+    try {
+      replaceEntry(await setTraceTags(entry.id, tags));
+    } catch (error) {
+      alert(`Failed to update tags: ${errorMessage(error)}`);
+    }
+  };
+
+  const commitTag = (entry: TraceLibraryEntry) => {
+    const tag = tagging?.tag.trim();
+    setTagging(null);
+    if (tag) updateTags(entry, [...entry.tags, tag]);
+  };
+
+  const allTags = useMemo(
+    () => [...new Set((entries || []).flatMap(entry => entry.tags))].sort(),
+    [entries]
+  );
+
+  const shownEntries = (entries || []).filter(entry => !tagFilter || entry.tags.includes(tagFilter));
+
+  if (!entries || entries.length === 0) return null;
+
+  return (
+    <div className="mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-semibold flex items-center">
+          <Library className="w-4 h-4 mr-2" />
+          Recent Traces
+        </h4>
+        {usage && (
+          <div className="flex items-center text-xs text-gray-400" title="Browser storage used by this site">
+            <HardDrive className="w-3 h-3 mr-1" />
+            {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+            <div className="w-20 h-1.5 bg-gray-700 rounded overflow-hidden ml-2">
+              <div
+                className={`h-full ${usage.usage / usage.quota > 0.8 ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              className={`px-2 py-0.5 rounded text-xs ${
+                tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {shownEntries.map(entry => (
+          <div key={entry.id} className="bg-gray-900 rounded p-3">
+            <div className="flex justify-between items-start gap-2">
+              <div className="min-w-0 flex-1">
+                {renaming?.id === entry.id ? (
+                  <input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') renameCancelledRef.current = true;
+                      if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                    }}
+                    className="w-full px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-sm font-mono focus:outline-none focus:border-blue-500"
+                  />
+                ) : (
+                  <div className="font-mono text-sm text-blue-400 truncate">{entry.name}</div>
+                )}
+                <div className="text-xs text-gray-500 mt-1">
+                  v{entry.version} · {new Date(entry.timestamp).toLocaleString()} · {entry.eventCount.toLocaleString()} events
+                  · {formatDuration(entry.totalTime) || '—'} · {formatBytes(entry.size)}
+                </div>
+              </div>
+
+              <div className="flex gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleOpen(entry)}
+                  disabled={disabled}
+                  className="inline-flex items-center px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs disabled:opacity-50"
+                >
+                  <FolderOpen className="w-3 h-3 mr-1" />
+                  Open
+                </button>
+                <button
+                  onClick={() => setRenaming({ id: entry.id, name: entry.name })}
+                  className="p-1 bg-gray-700 hover:bg-gray-600 rounded"
+                  title="Rename"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  className="p-1 bg-gray-700 hover:bg-red-700 rounded"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1 mt-2">
+              {entry.tags.map(tag => (
+                <span key={tag} className="inline-flex items-center px-2 py-0.5 bg-gray-700 rounded text-xs text-gray-300">
+                  <Tag className="w-3 h-3 mr-1" />
+                  {tag}
+                  <button
+                    onClick={() => updateTags(entry, entry.tags.filter(t => t !== tag))}
+                    className="ml-1 hover:text-white"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {tagging?.id === entry.id ? (
+                <input
+                  autoFocus
+                  value={tagging.tag}
+                  placeholder="tag"
+                  onChange={(e) => setTagging({ id: entry.id, tag: e.target.value })}
+                  onBlur={() => commitTag(entry)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitTag(entry);
+                    if (e.key === 'Escape') setTagging(null);
+                  }}
+                  className="w-24 px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs focus:outline-none focus:border-blue-500"
+                />
+              ) : (
+                <button
+                  onClick={() => setTagging({ id: entry.id, tag: '' })}
+                  className="inline-flex items-center px-2 py-0.5 text-xs text-gray-500 hover:text-gray-300"
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  Tag
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,59 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import { ChevronRight, ChevronDown, Clock, Code, FileText, BarChart3 } from 'lucide-react';
-import { TreeNodeDisplay } from '../types';
-import { formatDuration, formatParameters, formatValue, formatParametersFull, formatValueFull } from '../utils/treeTransform';
+import { ChevronRight, ChevronDown, Clock, Code, FileText, BarChart3, AlertTriangle, Flame, GanttChart, Network, X, EyeOff, ArrowUp, ArrowDown, LogIn, LogOut, Layers, Bookmark, StickyNote, Focus } from 'lucide-react';
+import { NodeStatus, SourceBundle, TimeRange, TreeNodeDisplay } from '../types';
+import { formatDuration, formatParameters, formatValue } from '../utils/treeTransform';
 import { PerformanceAnalysis } from './PerformanceAnalysis';
+import { FlameGraph } from './FlameGraph';
+import { Timeline } from './Timeline';
+import { CallGraphView } from './CallGraphView';
+import { QueryInput } from './QueryInput';
+import { getTimeBounds, overlapsRange } from '../utils/timeline';
+import { buildNodePaths, NodePaths, readViewState, writeViewState } from '../utils/viewState';
+import { CompletionSource, getHighlightRanges, matchesQuery, parseQuery } from '../utils/query';
+import { downloadFile, formatTreeMarkdown, formatTreeText, subtreeToTraceData, toChromeTrace, toSpeedscope } from '../utils/traceExport';
+import { ExportMenu, ExportOption } from './ExportMenu';
+import { SourcePreview } from './SourcePreview';
+import { ValueInspector } from './ValueInspector';
+import { ValueFlowPanel } from './ValueFlowPanel';
+import { traceValue, ValueFlowRole } from '../utils/valueFlow';
+import { SourceRoot } from '../utils/sourceFiles';
+import { FoldingRulesPanel } from './FoldingRulesPanel';
+import { FoldingRule, foldTree, loadFoldingRules, saveFoldingRules } from '../utils/folding';
+import { BookmarksPanel } from './BookmarksPanel';
+import { FocusBreadcrumb } from './FocusBreadcrumb';
+import { loadAnnotations, NodeAnnotation, saveAnnotations, updateAnnotation } from '../utils/annotations';
 
 interface TreeViewProps {
   data: TreeNodeDisplay[];
+  // `data` is a growing live trace: keep the view across updates instead of resetting it
+  live?: boolean;
+  // Keep the most recent call expanded and scrolled into view
+  autoFollow?: boolean;
+  // Files embedded in the trace, for the source preview
+  sources?: SourceBundle | null;
+  // Identifies the trace for saved bookmarks and notes; without it they only last for the session
+  contentHash?: string | null;
+}
+
+type ViewTab = 'tree' | 'performance' | 'flame' | 'timeline' | 'graph';
+
+const VIEW_TABS: ViewTab[] = ['tree', 'performance', 'flame', 'timeline', 'graph'];
+
+// Delay before the URL hash catches up, so typing a query doesn't spam history
+const VIEW_STATE_WRITE_DELAY_MS = 250;
+
+// A visible line in the Call Tree: a call, or a run of non-matching siblings folded away while filtering
+type TreeRow =
+  | { kind: 'node'; node: TreeNodeDisplay; isExpanded: boolean }
+  | { kind: 'hidden'; id: string; depth: number; nodes: TreeNodeDisplay[]; count: number };
+
+function getRowId(row: TreeRow) {
+  return row.kind === 'node' ? row.node.id : row.id;
+}
+
+function isEditableTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 }
 
 const DEPTH_COLORS = [
@@ -18,52 +65,277 @@ const DEPTH_COLORS = [
   'text-red-400'
 ];
 
-export function TreeView({ data }: TreeViewProps) {
+const STATUS_DESCRIPTIONS: Record<NodeStatus, { label: string; description: string }> = {
+  unterminated: {
+    label: 'Unterminated Call',
+    description: 'No matching return was recorded, e.g. the method raised or threw.',
+  },
+  unmatched: {
+    label: 'Unmatched Return',
+    description: 'No open call was found to pair this return with.',
+  },
+};
+
+export function TreeView({ data: traceData, live = false, autoFollow = false, sources = null, contentHash = null }: TreeViewProps) {
+  const [foldingRules, setFoldingRules] = useState<FoldingRule[]>(loadFoldingRules);
+  const folding = useMemo(() => foldTree(traceData, foldingRules), [traceData, foldingRules]);
+  // Every view works on the folded tree; node ids are the same as in the trace
+  const data = folding.tree;
+
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  // Root the Call Tree and Performance tab are narrowed to ("focus root", not the keyboard focus)
+  const [focusRootId, setFocusRootId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showOnlyFiltered, setShowOnlyFiltered] = useState(false);
-  const [activeTab, setActiveTab] = useState<'tree' | 'performance'>('tree');
+  const [activeTab, setActiveTab] = useState<ViewTab>('tree');
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null);
+  // Project folder picked for the source preview; kept while switching between calls
+  const [sourceRoot, setSourceRoot] = useState<SourceRoot | null>(null);
+  // Value picked with "Trace this value", boxed since the value itself may be falsy (0, "")
+  const [tracedValue, setTracedValue] = useState<{ value: unknown } | null>(null);
+  const [annotations, setAnnotations] = useState<NodeAnnotation[]>(() => loadAnnotations(contentHash));
+
+  React.useEffect(() => {
+    setAnnotations(loadAnnotations(contentHash));
+  }, [contentHash]);
+
+  const annotationById = useMemo(
+    () => new Map(annotations.map(annotation => [annotation.nodeId, annotation])),
+    [annotations]
+  );
+
+  const updateAnnotations = useCallback((next: NodeAnnotation[]) => {
+    setAnnotations(next);
+    saveAnnotations(contentHash, next);
+  }, [contentHash]);
+
+  // Roots already handed to the expansion state, so live updates only expand new ones
+  const seenRootsRef = React.useRef<Set<string> | null>(null);
 
   // Initialize only root level nodes as expanded for performance
   React.useEffect(() => {
+    if (live && seenRootsRef.current) {
+      const seen = seenRootsRef.current;
+      const newRoots = traceData.filter(node => !seen.has(node.id));
+      if (newRoots.length === 0) return;
+      newRoots.forEach(node => seen.add(node.id));
+      setExpandedNodes(prev => {
+        const next = new Set(prev);
+        newRoots.forEach(node => next.add(node.id));
+        return next;
+      });
+      return;
+    }
+
     const rootNodeIds = new Set<string>();
-    data.forEach(node => {
+    traceData.forEach(node => {
       rootNodeIds.add(node.id);
     });
+    seenRootsRef.current = new Set(rootNodeIds);
     setExpandedNodes(rootNodeIds);
+    setTimeRange(null);
+    setTracedValue(null);
+    setFocusRootId(null);
+  }, [traceData, live]);
+
+  const timeBounds = useMemo(() => getTimeBounds(data), [data]);
+
+  // Lookup for selections coming from views other than the visible tree rows
+  const nodeById = useMemo(() => {
+    const map = new Map<string, TreeNodeDisplay>();
+    const pending = [...data];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      map.set(node.id, node);
+      for (const child of node.children) pending.push(child);
+    }
+    return map;
   }, [data]);
 
-    // Optimized visible nodes calculation with search filtering
-  const visibleNodes = useMemo(() => {
-    const result: TreeNodeDisplay[] = [];
-    const searchLower = searchTerm.toLowerCase();
+  // Paths in the URL address the unfolded trace, so links work whatever rules the reader has on
+  const nodePaths = useMemo(() => buildNodePaths(traceData), [traceData]);
+
+  // Undefined when nothing is focused, or the focused call was folded away
+  const focusRoot = focusRootId ? nodeById.get(focusRootId) : undefined;
+  const scopedData = useMemo(() => (focusRoot ? [focusRoot] : data), [focusRoot, data]);
+  // Rows in a focused tree are indented relative to the focus root
+  const depthOffset = focusRoot ? focusRoot.depth : 0;
+
+  const annotateNode = useCallback((nodeId: string, changes: Partial<Pick<NodeAnnotation, 'bookmarked' | 'note'>>) => {
+    const node = nodeById.get(nodeId);
+    if (!node) return;
+    const label = node.defined_class ? `${node.defined_class}#${node.method_name}` : node.method_name;
+    updateAnnotations(updateAnnotation(annotations, nodeId, label, changes));
+  }, [nodeById, annotations, updateAnnotations]);
+
+  const toggleBookmark = useCallback((nodeId: string) => {
+    annotateNode(nodeId, { bookmarked: !annotationById.get(nodeId)?.bookmarked });
+  }, [annotateNode, annotationById]);
+
+  const flowHits = useMemo(() => (tracedValue ? traceValue(data, tracedValue.value) : []), [data, tracedValue]);
+
+  // How each call takes part in the traced value's flow, for marking rows
+  const flowRoles = useMemo(() => {
+    const roles = new Map<string, ValueFlowRole | 'both'>();
+    flowHits.forEach(hit => {
+      const existing = roles.get(hit.node.id);
+      roles.set(hit.node.id, existing && existing !== hit.role ? 'both' : hit.role);
+    });
+    return roles;
+  }, [flowHits]);
+
+  // The producer → consumer links through the selected call
+  const flowChain = useMemo(() => {
+    const chain = new Set<string>();
+    if (!selectedNode) return chain;
+    flowHits.forEach(hit => {
+      if (!hit.producer) return;
+      if (hit.node.id === selectedNode) chain.add(hit.producer.node.id);
+      if (hit.producer.node.id === selectedNode) chain.add(hit.node.id);
+    });
+    return chain;
+  }, [flowHits, selectedNode]);
+
+  const parsedQuery = useMemo(() => parseQuery(searchTerm), [searchTerm]);
+
+  // Shared by the call tree filter and the flame graph highlighting
+  const isSearchMatch = useMemo(() => {
+    if (parsedQuery.terms.length === 0) return null;
+    return (node: TreeNodeDisplay) => matchesQuery(node, parsedQuery);
+  }, [parsedQuery]);
+
+  // Known names for query autocomplete
+  const completionSource = useMemo<CompletionSource>(() => {
+    const classes = new Set<string>();
+    const methods = new Set<string>();
+    const parameters = new Set<string>();
+    nodeById.forEach(node => {
+      if (node.defined_class) classes.add(node.defined_class);
+      methods.add(node.method_name);
+      node.parameters?.forEach(param => param.name && parameters.add(param.name));
+    });
+    return {
+      classes: [...classes].sort(),
+      methods: [...methods].sort(),
+      parameters: [...parameters].sort(),
+    };
+  }, [nodeById]);
+
+  // Every match in tree order, plus which nodes have a match in their subtree
+  const searchIndex = useMemo(() => {
+    const matches: TreeNodeDisplay[] = [];
+    const containsMatch = new Set<string>();
+    const subtreeSizes = new Map<string, number>();
+    if (!isSearchMatch) return { matches, containsMatch, subtreeSizes };
+
+    function visit(node: TreeNodeDisplay): boolean {
+      let found = isSearchMatch!(node);
+      if (found) matches.push(node);
+
+      let size = 1;
+      for (const child of node.children) {
+        if (timeRange && !overlapsRange(child, timeRange)) continue;
+        if (visit(child)) found = true;
+        size += subtreeSizes.get(child.id)!;
+      }
+
+      subtreeSizes.set(node.id, size);
+      if (found) containsMatch.add(node.id);
+      return found;
+    }
+
+    scopedData.forEach(node => {
+      if (!timeRange || overlapsRange(node, timeRange)) visit(node);
+    });
+    return { matches, containsMatch, subtreeSizes };
+  }, [scopedData, isSearchMatch, timeRange]);
+
+  const [currentMatch, setCurrentMatch] = useState(-1);
+  // Placeholders the user opened, and auto-expanded match paths the user collapsed
+  const [revealedPlaceholders, setRevealedPlaceholders] = useState<Set<string>>(new Set());
+  const [filterCollapsed, setFilterCollapsed] = useState<Set<string>>(new Set());
+
+  React.useEffect(() => {
+    setCurrentMatch(-1);
+    setRevealedPlaceholders(new Set());
+    setFilterCollapsed(new Set());
+  }, [searchIndex]);
+
+  const isFiltering = showOnlyFiltered && !!isSearchMatch;
+
+  // Optimized visible rows calculation with search filtering
+  const visibleRows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const { containsMatch, subtreeSizes } = searchIndex;
+
+    // `unfiltered` renders a subtree as-is, e.g. inside an expanded match or an opened placeholder
+    function traverse(nodes: TreeNodeDisplay[], unfiltered: boolean) {
+      let hidden: TreeNodeDisplay[] = [];
+
+      const flushHidden = () => {
+        if (hidden.length === 0) return;
+        const id = `hidden-${hidden[0].id}`;
+        if (revealedPlaceholders.has(id)) {
+          traverse(hidden, true);
+        } else {
+          result.push({
+            kind: 'hidden',
+            id,
+            depth: hidden[0].depth,
+            nodes: hidden,
+            count: hidden.reduce((sum, node) => sum + (subtreeSizes.get(node.id) || 1), 0),
+          });
+        }
+        hidden = [];
+      };
 
-    function traverse(nodes: TreeNodeDisplay[]) {
       for (const node of nodes) {
-        const matchesSearch = !searchTerm ||
-          node.method_name.toLowerCase().includes(searchLower) ||
-          node.defined_class?.toLowerCase().includes(searchLower);
+        // Children run inside their parent, so a call outside the range hides its whole subtree
+        if (timeRange && !overlapsRange(node, timeRange)) continue;
+
+        if (!isFiltering || unfiltered) {
+          const isExpanded = expandedNodes.has(node.id);
+          result.push({ kind: 'node', node, isExpanded });
+          if (isExpanded && node.children.length > 0) {
+            traverse(node.children, unfiltered);
+          }
+          continue;
+        }
 
-        if (!showOnlyFiltered || matchesSearch) {
-          result.push(node);
+        if (!containsMatch.has(node.id)) {
+          hidden.push(node);
+          continue;
         }
 
-        if (expandedNodes.has(node.id) && node.children.length > 0) {
-          traverse(node.children);
+        flushHidden();
+
+        // Paths leading to matches open automatically; a matching leaf of the search expands normally
+        const leadsToMatch = node.children.some(child => containsMatch.has(child.id));
+        const isExpanded = leadsToMatch ? !filterCollapsed.has(node.id) : expandedNodes.has(node.id);
+        result.push({ kind: 'node', node, isExpanded });
+        if (isExpanded && node.children.length > 0) {
+          traverse(node.children, !leadsToMatch);
         }
       }
+
+      flushHidden();
     }
 
-    traverse(data);
+    traverse(scopedData, false);
     return result;
-  }, [data, expandedNodes, searchTerm, showOnlyFiltered]);
+  }, [scopedData, expandedNodes, isFiltering, searchIndex, timeRange, revealedPlaceholders, filterCollapsed]);
+
+  const visibleNodeCount = useMemo(
+    () => visibleRows.reduce((count, row) => count + (row.kind === 'node' ? 1 : 0), 0),
+    [visibleRows]
+  );
 
     // Virtualization setup
   const parentRef = React.useRef<HTMLDivElement>(null);
 
   const virtualizer = useVirtualizer({
-    count: visibleNodes.length,
+    count: visibleRows.length,
     getScrollElement: () => parentRef.current,
     estimateSize: () => 36, // Increased height per item for better readability
     overscan: 10, // Render 10 extra items outside viewport
@@ -77,6 +349,20 @@ export function TreeView({ data }: TreeViewProps) {
   }, [activeTab, virtualizer]);
 
   const toggleExpansion = useCallback((nodeId: string) => {
+    const node = nodeById.get(nodeId);
+    if (isFiltering && node?.children.some(child => searchIndex.containsMatch.has(child.id))) {
+      setFilterCollapsed(prev => {
+        const next = new Set(prev);
+        if (next.has(nodeId)) {
+          next.delete(nodeId);
+        } else {
+          next.add(nodeId);
+        }
+        return next;
+      });
+      return;
+    }
+
     setExpandedNodes(prev => {
       const next = new Set(prev);
       if (next.has(nodeId)) {
@@ -86,15 +372,36 @@ export function TreeView({ data }: TreeViewProps) {
       }
       return next;
     });
-  }, []);
+  }, [nodeById, isFiltering, searchIndex]);
 
   const getDepthColor = useCallback((depth: number) => {
     return DEPTH_COLORS[depth % DEPTH_COLORS.length];
   }, []);
 
-      const TreeNodeItem = React.memo(({ node, isSelected, onSelect }: {
+  const renderHighlighted = (text: string) => {
+    const ranges = getHighlightRanges(text, 'method', parsedQuery);
+    if (ranges.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    ranges.forEach(([start, end], i) => {
+      if (start > last) parts.push(text.slice(last, start));
+      parts.push(<mark key={i} className="bg-yellow-500/40 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+      last = end;
+    });
+    if (last < text.length) parts.push(text.slice(last));
+    return parts;
+  };
+
+      const TreeNodeItem = React.memo(({ node, isExpanded, isSelected, isFocused, isMatch, flowRole, inFlowChain, annotation, onSelect }: {
     node: TreeNodeDisplay;
+    isExpanded: boolean;
     isSelected: boolean;
+    isFocused: boolean;
+    isMatch: boolean;
+    flowRole?: ValueFlowRole | 'both';
+    inFlowChain: boolean;
+    annotation?: NodeAnnotation;
     onSelect: (id: string) => void;
   }) => {
     const depthColor = getDepthColor(node.depth);
@@ -105,7 +412,7 @@ export function TreeView({ data }: TreeViewProps) {
 
       return (
         <div className="flex items-center gap-1 min-w-0 font-mono text-sm">
-          <span className={`${depthColor} font-semibold flex-shrink-0`}>{node.method_name}</span>
+          <span className={`${depthColor} font-semibold flex-shrink-0`}>{renderHighlighted(node.method_name)}</span>
           <span className="text-gray-400">(</span>
           <span className="text-gray-300 truncate">{formatParameters(node.parameters)}</span>
           <span className="text-gray-400">)</span>
@@ -116,20 +423,65 @@ export function TreeView({ data }: TreeViewProps) {
             </>
           )}
           {duration && <span className="text-cyan-400 text-xs ml-2 flex-shrink-0 bg-gray-800 px-1 py-0.5 rounded">[{duration}]</span>}
+          {node.libraryTime !== undefined && (
+            <span className="flex items-center text-gray-400 text-xs ml-2 flex-shrink-0 bg-gray-800 px-1 py-0.5 rounded" title="Time in folded library calls">
+              <Layers size={12} className="mr-1" />
+              {formatDuration(node.libraryTime)}
+            </span>
+          )}
+          {flowRole && (
+            <span
+              className={`flex items-center text-xs ml-2 flex-shrink-0 px-1 py-0.5 rounded ${
+                flowRole === 'consumer' ? 'text-blue-300 bg-blue-900/40' : 'text-green-300 bg-green-900/40'
+              }`}
+              title="Traced value"
+            >
+              {flowRole === 'producer' ? <LogOut size={12} /> : flowRole === 'consumer' ? <LogIn size={12} /> : <><LogIn size={12} /><LogOut size={12} /></>}
+            </span>
+          )}
+          {node.status && (
+            <span
+              className="flex items-center text-yellow-400 text-xs ml-2 flex-shrink-0 bg-yellow-900/40 px-1 py-0.5 rounded"
+              title={STATUS_DESCRIPTIONS[node.status].description}
+            >
+              <AlertTriangle size={12} className="mr-1" />
+              {node.status}
+            </span>
+          )}
+          {annotation?.note && (
+            <span className="flex items-center text-blue-300 text-xs ml-2 min-w-0 max-w-xs" title={annotation.note}>
+              <StickyNote size={12} className="mr-1 flex-shrink-0" />
+              <span className="truncate font-sans italic">{annotation.note}</span>
+            </span>
+          )}
         </div>
       );
     };
 
     return (
       <div
-        className={`flex items-center cursor-pointer hover:bg-gray-700 py-2 px-2 rounded mb-1 transition-colors ${
-          isSelected ? 'bg-gray-700' : ''
-        }`}
+        className={`group/row flex items-center cursor-pointer hover:bg-gray-700 py-2 px-2 rounded mb-1 transition-colors ${
+          isSelected ? 'bg-gray-700' : isMatch ? 'bg-yellow-900/20' : ''
+        } ${isFocused ? 'group-focus:ring-1 group-focus:ring-blue-500' : inFlowChain ? 'ring-1 ring-green-500/60' : ''}`}
         onClick={() => onSelect(node.id)}
       >
+        {/* Bookmark gutter */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleBookmark(node.id);
+          }}
+          tabIndex={-1}
+          aria-label={annotation?.bookmarked ? 'Remove bookmark' : 'Bookmark'}
+          className={`w-4 mr-2 flex-shrink-0 ${
+            annotation?.bookmarked ? 'text-yellow-400' : 'text-gray-500 opacity-0 group-hover/row:opacity-100 hover:text-gray-300'
+          }`}
+        >
+          <Bookmark size={14} className={annotation?.bookmarked ? 'fill-current' : ''} />
+        </button>
         <div className="flex items-center">
           {/* Depth lines */}
-          {Array.from({ length: node.depth }, (_, i) => (
+          {Array.from({ length: node.depth - depthOffset }, (_, i) => (
             <div
               key={`depth-${i}`}
               className="w-4 border-l-2 border-gray-600 mr-2"
@@ -144,9 +496,11 @@ export function TreeView({ data }: TreeViewProps) {
                 e.stopPropagation();
                 toggleExpansion(node.id);
               }}
+              tabIndex={-1}
+              aria-label={isExpanded ? 'Collapse' : 'Expand'}
               className={`${depthColor} hover:text-white mr-2 p-1 rounded`}
             >
-              {expandedNodes.has(node.id) ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+              {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
             </button>
           ) : (
             <div className="w-6 mr-2 flex justify-center">
@@ -161,15 +515,321 @@ export function TreeView({ data }: TreeViewProps) {
     );
   });
 
-    const handleNodeSelect = useCallback((nodeId: string) => {
+  const [pendingScrollId, setPendingScrollId] = useState<string | null>(null);
+  // Keyboard cursor in the Call Tree; Enter turns it into the selection
+  const [focusedRowId, setFocusedRowId] = useState<string | null>(null);
+  const searchInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleRowSelect = useCallback((nodeId: string) => {
     setSelectedNode(nodeId);
+    setFocusedRowId(nodeId);
+  }, []);
+
+  // Selecting from another view (or a match jump) also expands the ancestors
+  // and scrolls so the node shows up in the Call Tree
+  const handleNodeSelect = useCallback((nodeId: string) => {
+    setSelectedNode(nodeId);
+    setFocusedRowId(nodeId);
+    setPendingScrollId(nodeId);
+
+    const node = nodeById.get(nodeId);
+    // Calls picked outside the focused subtree (e.g. in the flame graph) leave focus mode
+    setFocusRootId(prev => {
+      for (let ancestor = node; ancestor; ancestor = ancestor.parent) {
+        if (ancestor.id === prev) return prev;
+      }
+      return null;
+    });
+    if (!node?.parent) return;
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+        next.add(ancestor.id);
+      }
+      return next;
+    });
+    setFilterCollapsed(prev => {
+      const next = new Set(prev);
+      for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+        next.delete(ancestor.id);
+      }
+      return next;
+    });
+  }, [nodeById]);
+
+  // Re-roots the Call Tree (null shows every call again). The call that ends up in view is
+  // opened and scrolled to: the new root, or when widening, the root we came from.
+  const focusSubtree = useCallback((nodeId: string | null) => {
+    const previous = focusRootId ? nodeById.get(focusRootId) : undefined;
+    let widening = !!previous && nodeId === null;
+    for (let ancestor = previous?.parent; ancestor && !widening; ancestor = ancestor.parent) {
+      widening = ancestor.id === nodeId;
+    }
+    const revealed = widening ? previous : nodeId ? nodeById.get(nodeId) : undefined;
+
+    setFocusRootId(nodeId);
+    if (!revealed) return;
+    setExpandedNodes(prev => {
+      const next = new Set(prev).add(revealed.id);
+      for (let ancestor = revealed.parent; ancestor; ancestor = ancestor.parent) {
+        next.add(ancestor.id);
+      }
+      return next;
+    });
+    setPendingScrollId(revealed.id);
+  }, [focusRootId, nodeById]);
+
+  React.useEffect(() => {
+    if (!pendingScrollId || activeTab !== 'tree') return;
+    const index = visibleRows.findIndex(row => row.kind === 'node' && row.node.id === pendingScrollId);
+    if (index >= 0) virtualizer.scrollToIndex(index, { align: 'center' });
+    setPendingScrollId(null);
+  }, [pendingScrollId, visibleRows, activeTab, virtualizer]);
+
+  const goToMatch = useCallback((direction: 1 | -1) => {
+    const { matches } = searchIndex;
+    if (matches.length === 0) return;
+
+    const next = currentMatch < 0
+      ? (direction > 0 ? 0 : matches.length - 1)
+      : (currentMatch + direction + matches.length) % matches.length;
+    setCurrentMatch(next);
+    handleNodeSelect(matches[next].id);
+  }, [searchIndex, currentMatch, handleNodeSelect]);
+
+  // Folding rule changes rebuild nodeById, which mustn't reapply the hash
+  const restoredPathsRef = React.useRef<NodePaths | null>(null);
+
+  // Reopen the view described by the URL hash whenever a trace is loaded.
+  // Live traces shift as old calls are dropped, so their paths aren't stable enough to share.
+  React.useEffect(() => {
+    if (live || restoredPathsRef.current === nodePaths) return;
+    restoredPathsRef.current = nodePaths;
+    const state = readViewState();
+    if (state.tab && (VIEW_TABS as string[]).includes(state.tab)) {
+      setActiveTab(state.tab as ViewTab);
+    }
+    setSearchTerm(state.query);
+
+    if (state.expanded === 'all') {
+      const ids = new Set<string>();
+      nodeById.forEach(node => {
+        if (node.children.length > 0) ids.add(node.id);
+      });
+      setExpandedNodes(ids);
+    } else if (state.expanded) {
+      const ids = new Set<string>();
+      state.expanded.forEach(path => {
+        const node = nodePaths.nodeByPath.get(path);
+        if (node) ids.add(node.id);
+      });
+      setExpandedNodes(ids);
+    }
+
+    const focused = state.focus ? nodePaths.nodeByPath.get(state.focus) : undefined;
+    if (focused) focusSubtree(focused.id);
+    const selected = state.selected ? nodePaths.nodeByPath.get(state.selected) : undefined;
+    if (selected) handleNodeSelect(selected.id);
+  }, [live, nodePaths, nodeById, handleNodeSelect, focusSubtree]);
+
+  // ...and keep the hash describing the current view so the link can be shared
+  React.useEffect(() => {
+    if (live) return;
+    const timer = setTimeout(() => {
+      const { pathById, expandableCount } = nodePaths;
+      const expandedPaths: string[] = [];
+      expandedNodes.forEach(id => {
+        const path = pathById.get(id);
+        if (path && nodePaths.nodeByPath.get(path)!.children.length > 0) expandedPaths.push(path);
+      });
+
+      writeViewState({
+        tab: activeTab === 'tree' ? null : activeTab,
+        query: searchTerm,
+        selected: (selectedNode && pathById.get(selectedNode)) || null,
+        focus: (focusRootId && pathById.get(focusRootId)) || null,
+        expanded: expandableCount > 0 && expandedPaths.length === expandableCount ? 'all' : expandedPaths,
+      });
+    }, VIEW_STATE_WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [live, nodePaths, expandedNodes, selectedNode, focusRootId, searchTerm, activeTab]);
+
+  // Follow the most recent call: the last child all the way down
+  React.useEffect(() => {
+    if (!autoFollow || data.length === 0) return;
+    let latest = data[data.length - 1];
+    while (latest.children.length > 0) latest = latest.children[latest.children.length - 1];
+
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      for (let ancestor = latest.parent; ancestor; ancestor = ancestor.parent) {
+        next.add(ancestor.id);
+      }
+      return next;
+    });
+    setPendingScrollId(latest.id);
+  }, [data, autoFollow]);
+
+  const focusedIndex = useMemo(
+    () => (focusedRowId ? visibleRows.findIndex(row => getRowId(row) === focusedRowId) : -1),
+    [focusedRowId, visibleRows]
+  );
+
+  const focusRow = useCallback((index: number) => {
+    const row = visibleRows[index];
+    if (!row) return;
+    setFocusedRowId(getRowId(row));
+    virtualizer.scrollToIndex(index);
+  }, [visibleRows, virtualizer]);
+
+  const revealPlaceholder = useCallback((row: Extract<TreeRow, { kind: 'hidden' }>) => {
+    setRevealedPlaceholders(prev => new Set(prev).add(row.id));
+    setFocusedRowId(prev => (prev === row.id ? row.nodes[0].id : prev));
+  }, []);
+
+  const expandSubtree = useCallback((root: TreeNodeDisplay) => {
+    const ids: string[] = [];
+    const stack = [root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.children.length === 0) continue;
+      ids.push(node.id);
+      for (const child of node.children) stack.push(child);
+    }
+
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.add(id));
+      return next;
+    });
+    setFilterCollapsed(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  // Follows the WAI-ARIA tree view pattern; the tree keeps DOM focus and points at the row via aria-activedescendant
+  const handleTreeKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (visibleRows.length === 0) return;
+    const index = Math.max(focusedIndex, 0);
+    const row = visibleRows[index];
+
+    switch (e.key) {
+      case 'ArrowDown':
+        focusRow(focusedIndex < 0 ? 0 : Math.min(index + 1, visibleRows.length - 1));
+        break;
+      case 'ArrowUp':
+        focusRow(Math.max(index - 1, 0));
+        break;
+      case 'Home':
+        focusRow(0);
+        break;
+      case 'End':
+        focusRow(visibleRows.length - 1);
+        break;
+      case 'ArrowRight':
+        if (row.kind === 'hidden') {
+          revealPlaceholder(row);
+        } else if (row.node.children.length > 0) {
+          if (row.isExpanded) focusRow(index + 1);
+          else toggleExpansion(row.node.id);
+        }
+        break;
+      case 'ArrowLeft': {
+        if (row.kind === 'node' && row.isExpanded) {
+          toggleExpansion(row.node.id);
+          break;
+        }
+        const parent = row.kind === 'node' ? row.node.parent : row.nodes[0].parent;
+        const parentIndex = parent ? visibleRows.findIndex(r => r.kind === 'node' && r.node.id === parent.id) : -1;
+        if (parentIndex >= 0) focusRow(parentIndex);
+        break;
+      }
+      case '*':
+        if (row.kind === 'node') expandSubtree(row.node);
+        break;
+      case 'Enter':
+        if (row.kind === 'node') setSelectedNode(row.node.id);
+        else revealPlaceholder(row);
+        break;
+      case 'b':
+        if (row.kind === 'node') toggleBookmark(row.node.id);
+        break;
+      case 'f':
+        if (row.kind === 'node') focusSubtree(row.node.id);
+        break;
+      case 'u':
+        if (focusRoot) focusSubtree(focusRoot.parent?.id ?? null);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }, [visibleRows, focusedIndex, focusRow, revealPlaceholder, toggleExpansion, expandSubtree, toggleBookmark, focusRoot, focusSubtree]);
+
+  // `/` jumps to the search box from anywhere in the Call Tree tab
+  React.useEffect(() => {
+    if (activeTab !== 'tree') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== '/' || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      e.preventDefault();
+      searchInputRef.current?.focus();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTab]);
+
+  const updateFoldingRules = useCallback((rules: FoldingRule[]) => {
+    setFoldingRules(rules);
+    saveFoldingRules(rules);
   }, []);
 
   const selectedNodeData = useMemo(() =>
-    selectedNode ? visibleNodes.find(n => n.id === selectedNode) : null,
-    [selectedNode, visibleNodes]
+    selectedNode ? nodeById.get(selectedNode) : null,
+    [selectedNode, nodeById]
   );
 
+  const selectedAnnotation = selectedNode ? annotationById.get(selectedNode) : undefined;
+
+  // The selected call in the unfolded trace, with any folded frames still under it
+  const selectedTraceNode = useMemo(() => {
+    const path = selectedNode ? nodePaths.pathById.get(selectedNode) : undefined;
+    return path ? nodePaths.nodeByPath.get(path) ?? null : null;
+  }, [selectedNode, nodePaths]);
+
+  // Text and Markdown follow the tree as shown; the other formats cover the whole, unfolded trace
+  const exportOptions: ExportOption[] = [
+    {
+      label: 'Tree as text',
+      disabled: visibleRows.length === 0,
+      onSelect: () => downloadFile(formatTreeText(visibleRows), 'call-tree.txt', 'text/plain'),
+    },
+    {
+      label: 'Tree as Markdown',
+      disabled: visibleRows.length === 0,
+      onSelect: () => downloadFile(formatTreeMarkdown(visibleRows), 'call-tree.md', 'text/markdown'),
+    },
+    {
+      label: 'Selected subtree (JSON trace)',
+      disabled: !selectedTraceNode,
+      title: selectedTraceNode ? undefined : 'Select a call first',
+      onSelect: () => {
+        if (!selectedTraceNode) return;
+        const trace = subtreeToTraceData(selectedTraceNode);
+        downloadFile(JSON.stringify(trace, null, 2), `${selectedTraceNode.method_name}-subtree.json`, 'application/json');
+      },
+    },
+    {
+      label: 'speedscope',
+      onSelect: () => downloadFile(JSON.stringify(toSpeedscope(traceData, 'tp_tree trace')), 'trace.speedscope.json', 'application/json'),
+    },
+    {
+      label: 'Chrome Trace Event',
+      onSelect: () => downloadFile(JSON.stringify(toChromeTrace(traceData)), 'trace.chrome.json', 'application/json'),
+    },
+  ];
+
     return (
     <div className="flex gap-6 h-full">
       {/* Main Panel */}
@@ -200,21 +860,77 @@ export function TreeView({ data }: TreeViewProps) {
               <BarChart3 className="w-4 h-4 mr-2" />
               Performance
             </button>
+            <button
+              onClick={() => setActiveTab('flame')}
+              className={`flex items-center px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === 'flame'
+                  ? 'border-blue-500 text-blue-400'
+                  : 'border-transparent text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <Flame className="w-4 h-4 mr-2" />
+              Flame Graph
+            </button>
+            <button
+              onClick={() => setActiveTab('timeline')}
+              className={`flex items-center px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === 'timeline'
+                  ? 'border-blue-500 text-blue-400'
+                  : 'border-transparent text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <GanttChart className="w-4 h-4 mr-2" />
+              Timeline
+            </button>
+            <button
+              onClick={() => setActiveTab('graph')}
+              className={`flex items-center px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === 'graph'
+                  ? 'border-blue-500 text-blue-400'
+                  : 'border-transparent text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <Network className="w-4 h-4 mr-2" />
+              Call Graph
+            </button>
           </div>
 
+          {/* The Performance tab is scoped to the focused subtree too */}
+          {activeTab === 'performance' && focusRoot && (
+            <div className="p-4">
+              <FocusBreadcrumb key={focusRoot.id} node={focusRoot} onFocus={focusSubtree} />
+            </div>
+          )}
+
+          {/* Search highlights matching frames in the flame graph */}
+          {activeTab === 'flame' && (
+            <div className="p-4">
+              <QueryInput
+                value={searchTerm}
+                onChange={setSearchTerm}
+                errors={parsedQuery.errors}
+                completionSource={completionSource}
+                placeholder="Highlight frames, e.g. class:User duration>5ms"
+              />
+            </div>
+          )}
+
           {/* Search and Filter Controls - only show for tree tab */}
           {activeTab === 'tree' && (
             <div className="p-4">
               {/* Search and Filter Controls */}
-              <div className="flex gap-2 mb-3">
-                <input
-                  type="text"
-                  placeholder="Search methods or classes..."
+              <div className="flex gap-2 mb-3 items-start">
+                <QueryInput
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="flex-1 px-3 py-1 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+                  onChange={setSearchTerm}
+                  errors={parsedQuery.errors}
+                  completionSource={completionSource}
+                  placeholder="Search, e.g. class:User method:/^find_/ duration>5ms param.id=42"
+                  className="flex-1"
+                  onSubmit={(backwards) => goToMatch(backwards ? -1 : 1)}
+                  ref={searchInputRef}
                 />
-                <label className="flex items-center text-sm text-gray-300">
+                <label className="flex items-center text-sm text-gray-300 py-1">
                   <input
                     type="checkbox"
                     checked={showOnlyFiltered}
@@ -225,8 +941,51 @@ export function TreeView({ data }: TreeViewProps) {
                 </label>
               </div>
 
+              {focusRoot && (
+                <div className="mb-3">
+                  <FocusBreadcrumb key={focusRoot.id} node={focusRoot} onFocus={focusSubtree} />
+                </div>
+              )}
+
+              {timeRange && timeBounds && (
+                <div className="flex items-center gap-2 mb-3 text-sm">
+                  <span className="flex items-center px-2 py-1 bg-blue-900/50 border border-blue-700 rounded text-blue-300 text-xs">
+                    <GanttChart className="w-3 h-3 mr-1" />
+                    Time range: +{formatDuration(timeRange.start - timeBounds.start)} – +{formatDuration(timeRange.end - timeBounds.start)}
+                    <button onClick={() => setTimeRange(null)} className="ml-2 hover:text-white">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+              )}
+
               <div className="flex justify-between items-center text-sm text-gray-400">
-                <span>{visibleNodes.length} events shown</span>
+                <div className="flex items-center gap-3">
+                  <span>{visibleNodeCount} events shown</span>
+                  {isSearchMatch && (
+                    <div className="flex items-center gap-1">
+                      <span>
+                        {searchIndex.matches.length > 0 ? `${currentMatch + 1} / ${searchIndex.matches.length}` : '0'} matches
+                      </span>
+                      <button
+                        onClick={() => goToMatch(-1)}
+                        disabled={searchIndex.matches.length === 0}
+                        className="p-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                        title="Previous match (Shift+Enter)"
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => goToMatch(1)}
+                        disabled={searchIndex.matches.length === 0}
+                        className="p-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                        title="Next match (Enter)"
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
+                </div>
                 <div className="flex gap-2">
                   <button
                     onClick={() => {
@@ -237,7 +996,7 @@ export function TreeView({ data }: TreeViewProps) {
                           collect(node.children);
                         });
                       }
-                      collect(data);
+                      collect(scopedData);
                       setExpandedNodes(allIds);
                     }}
                     className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
@@ -250,6 +1009,7 @@ export function TreeView({ data }: TreeViewProps) {
                   >
                     Collapse All
                   </button>
+                  <ExportMenu options={exportOptions} />
                 </div>
               </div>
             </div>
@@ -261,9 +1021,14 @@ export function TreeView({ data }: TreeViewProps) {
           {activeTab === 'tree' ? (
             <div
               ref={parentRef}
-              className="h-full overflow-auto"
+              role="tree"
+              aria-label="Call tree"
+              aria-activedescendant={focusedIndex >= 0 ? `tree-row-${focusedRowId}` : undefined}
+              tabIndex={0}
+              onKeyDown={handleTreeKeyDown}
+              className="group h-full overflow-auto focus:outline-none"
             >
-              {visibleNodes.length > 0 ? (
+              {visibleRows.length > 0 ? (
                 <div
                   style={{
                     height: `${virtualizer.getTotalSize()}px`,
@@ -272,12 +1037,19 @@ export function TreeView({ data }: TreeViewProps) {
                   }}
                 >
                   {virtualizer.getVirtualItems().map((virtualItem) => {
-                    const node = visibleNodes[virtualItem.index];
-                    if (!node) return null;
+                    const row = visibleRows[virtualItem.index];
+                    if (!row) return null;
+                    const rowId = getRowId(row);
+                    const isFocused = virtualItem.index === focusedIndex;
 
                     return (
                       <div
                         key={virtualItem.key}
+                        id={`tree-row-${rowId}`}
+                        role="treeitem"
+                        aria-level={(row.kind === 'node' ? row.node.depth : row.depth) - depthOffset + 1}
+                        aria-expanded={row.kind === 'node' && row.node.children.length > 0 ? row.isExpanded : undefined}
+                        aria-selected={row.kind === 'node' && selectedNode === row.node.id}
                         style={{
                           position: 'absolute',
                           top: 0,
@@ -290,136 +1062,296 @@ export function TreeView({ data }: TreeViewProps) {
                         }}
                         className="font-mono"
                       >
-                        <TreeNodeItem
-                          node={node}
-                          isSelected={selectedNode === node.id}
-                          onSelect={handleNodeSelect}
-                        />
+                        {row.kind === 'node' ? (
+                          <TreeNodeItem
+                            node={row.node}
+                            isExpanded={row.isExpanded}
+                            isSelected={selectedNode === row.node.id}
+                            isFocused={isFocused}
+                            isMatch={!!isSearchMatch && isSearchMatch(row.node)}
+                            flowRole={flowRoles.get(row.node.id)}
+                            inFlowChain={flowChain.has(row.node.id)}
+                            annotation={annotationById.get(row.node.id)}
+                            onSelect={handleRowSelect}
+                          />
+                        ) : (
+                          <div
+                            className={`flex items-center cursor-pointer hover:bg-gray-700 py-2 px-2 rounded mb-1 transition-colors text-gray-500 text-sm ${
+                              isFocused ? 'group-focus:ring-1 group-focus:ring-blue-500' : ''
+                            }`}
+                            onClick={() => revealPlaceholder(row)}
+                          >
+                            <div className="w-4 mr-2 flex-shrink-0" />
+                            {Array.from({ length: row.depth - depthOffset }, (_, i) => (
+                              <div
+                                key={`depth-${i}`}
+                                className="w-4 border-l-2 border-gray-600 mr-2"
+                                style={{ height: '24px' }}
+                              />
+                            ))}
+                            <EyeOff className="w-4 h-4 mx-1" />
+                            <span className="ml-2 italic">
+                              {row.count.toLocaleString()} hidden {row.count === 1 ? 'call' : 'calls'}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     );
                   })}
                 </div>
               ) : (
                 <div className="p-4 text-center text-gray-400">
-                  {searchTerm || showOnlyFiltered ? 'No matching events found' : 'No events to display'}
+                  {searchTerm || showOnlyFiltered || timeRange ? 'No matching events found' : 'No events to display'}
                 </div>
               )}
             </div>
+          ) : activeTab === 'graph' ? (
+            <CallGraphView data={data} onNodeSelect={handleNodeSelect} />
+          ) : activeTab === 'timeline' ? (
+            <Timeline
+              data={data}
+              selectedNodeId={selectedNode}
+              timeRange={timeRange}
+              onTimeRangeChange={setTimeRange}
+              onNodeSelect={handleNodeSelect}
+            />
+          ) : activeTab === 'flame' ? (
+            <FlameGraph
+              data={data}
+              selectedNodeId={selectedNode}
+              isMatch={isSearchMatch}
+              onNodeSelect={handleNodeSelect}
+            />
           ) : (
             <div className="h-full overflow-auto p-4">
-              <PerformanceAnalysis data={data} onNodeSelect={handleNodeSelect} />
+              <PerformanceAnalysis
+                data={scopedData}
+                onNodeSelect={handleNodeSelect}
+                onNodeJump={(nodeId) => {
+                  handleNodeSelect(nodeId);
+                  setActiveTab('tree');
+                }}
+              />
             </div>
           )}
         </div>
       </div>
 
-      {/* Details Panel */}
-      <div className="w-80 bg-gray-800 rounded-lg flex flex-col">
-        <div className="p-4 border-b border-gray-700 flex-shrink-0">
-          <h3 className="text-lg font-semibold flex items-center">
-            <FileText className="w-5 h-5 mr-2" />
-            Node Details
-          </h3>
-        </div>
+      {/* Sidebar */}
+      <div className="w-80 flex flex-col gap-4">
+        <FoldingRulesPanel
+          rules={foldingRules}
+          onRulesChange={updateFoldingRules}
+          foldedCount={folding.foldedCount}
+          libraryTime={folding.libraryTime}
+        />
 
-        <div className="p-4 flex-1 overflow-auto">
-          {selectedNodeData ? (
-            <div className="space-y-4">
-              <div>
-                <label className="text-sm font-medium text-gray-400">Method</label>
-                <div className={`font-mono ${getDepthColor(selectedNodeData.depth)}`}>
-                  {selectedNodeData.method_name}
-                </div>
+        <BookmarksPanel
+          annotations={annotations}
+          traceHash={contentHash}
+          selectedNodeId={selectedNode}
+          isNodeShown={nodeId => nodeById.has(nodeId)}
+          onNodeSelect={(nodeId) => {
+            handleNodeSelect(nodeId);
+            setActiveTab('tree');
+          }}
+          onAnnotationsChange={updateAnnotations}
+        />
+
+        {/* Details Panel */}
+        <div className="flex-1 min-h-0 bg-gray-800 rounded-lg flex flex-col">
+          <div className="p-4 border-b border-gray-700 flex-shrink-0">
+            <h3 className="text-lg font-semibold flex items-center">
+              <FileText className="w-5 h-5 mr-2" />
+              Node Details
+            </h3>
+          </div>
+
+          <div className="p-4 flex-1 overflow-auto">
+            {tracedValue && (
+              <div className="mb-4">
+                <ValueFlowPanel
+                  value={tracedValue.value}
+                  hits={flowHits}
+                  selectedNodeId={selectedNode}
+                  onNodeSelect={handleNodeSelect}
+                  onClose={() => setTracedValue(null)}
+                />
               </div>
+            )}
 
-              <div>
-                <label className="text-sm font-medium text-gray-400">Call Type</label>
-                <div className="font-mono text-blue-400">
-                  {selectedNodeData.event === 'call_return' ? 'Leaf Call' :
-                   selectedNodeData.return_value !== null ? 'Call with Return' : 'Call'}
+            {selectedNodeData ? (
+              <div className="space-y-4">
+                <div>
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-medium text-gray-400">Method</label>
+                    {selectedNodeData.id !== focusRootId && (
+                      <button
+                        onClick={() => {
+                          focusSubtree(selectedNodeData.id);
+                          if (activeTab !== 'performance') setActiveTab('tree');
+                        }}
+                        className="flex items-center text-xs text-gray-400 hover:text-gray-300"
+                        title="Show only this call and what it calls, in the Call Tree and Performance tabs (f)"
+                      >
+                        <Focus className="w-3 h-3 mr-1" />
+                        Focus
+                      </button>
+                    )}
+                  </div>
+                  <div className={`font-mono ${getDepthColor(selectedNodeData.depth)}`}>
+                    {selectedNodeData.method_name}
+                  </div>
                 </div>
-              </div>
 
-              {selectedNodeData.defined_class && (
                 <div>
-                  <label className="text-sm font-medium text-gray-400">Class</label>
-                  <div className="font-mono text-green-400">
-                    {selectedNodeData.defined_class}
+                  <div className="flex justify-between items-center mb-1">
+                    <label htmlFor="node-note" className="text-sm font-medium text-gray-400">Note</label>
+                    <button
+                      onClick={() => toggleBookmark(selectedNodeData.id)}
+                      className={`flex items-center text-xs ${
+                        selectedAnnotation?.bookmarked ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-400 hover:text-gray-300'
+                      }`}
+                    >
+                      <Bookmark className={`w-3 h-3 mr-1 ${selectedAnnotation?.bookmarked ? 'fill-current' : ''}`} />
+                      {selectedAnnotation?.bookmarked ? 'Bookmarked' : 'Bookmark'}
+                    </button>
                   </div>
+                  <textarea
+                    id="node-note"
+                    value={selectedAnnotation?.note ?? ''}
+                    onChange={(e) => annotateNode(selectedNodeData.id, { note: e.target.value })}
+                    placeholder="Add a note about this call"
+                    rows={2}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm resize-y focus:outline-none focus:border-blue-500"
+                  />
                 </div>
-              )}
 
-              <div>
-                <label className="text-sm font-medium text-gray-400">Depth</label>
-                <div className="font-mono">
-                  {selectedNodeData.depth}
+                <div>
+                  <label className="text-sm font-medium text-gray-400">Call Type</label>
+                  {selectedNodeData.status ? (
+                    <>
+                      <div className="font-mono text-yellow-400 flex items-center">
+                        <AlertTriangle className="w-4 h-4 mr-1" />
+                        {STATUS_DESCRIPTIONS[selectedNodeData.status].label}
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {STATUS_DESCRIPTIONS[selectedNodeData.status].description}
+                      </p>
+                    </>
+                  ) : (
+                    <div className="font-mono text-blue-400">
+                      {selectedNodeData.event === 'call_return' ? 'Leaf Call' :
+                       selectedNodeData.return_value !== null ? 'Call with Return' : 'Call'}
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              {selectedNodeData.duration && (
+                {selectedNodeData.defined_class && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-400">Class</label>
+                    <div className="font-mono text-green-400">
+                      {selectedNodeData.defined_class}
+                    </div>
+                  </div>
+                )}
+
                 <div>
-                  <label className="text-sm font-medium text-gray-400 flex items-center">
-                    <Clock className="w-4 h-4 mr-1" />
-                    Duration
-                  </label>
-                  <div className="font-mono text-cyan-400">
-                    {formatDuration(selectedNodeData.duration)}
+                  <label className="text-sm font-medium text-gray-400">Depth</label>
+                  <div className="font-mono">
+                    {selectedNodeData.depth}
                   </div>
                 </div>
-              )}
 
-              {selectedNodeData.parameters && selectedNodeData.parameters.length > 0 && (
-                <div>
-                  <label className="text-sm font-medium text-gray-400 mb-2 block">
-                    Parameters ({selectedNodeData.parameters.length})
-                  </label>
-                  <div className="space-y-2">
-                    {selectedNodeData.parameters.map((param, index) => (
-                      <div key={index} className="bg-gray-900 p-3 rounded">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="text-xs font-medium text-gray-500 bg-gray-700 px-2 py-1 rounded">
-                            {param.type}
-                          </span>
-                          {param.name && (
-                            <span className="font-mono text-sm text-blue-400">
-                              {param.name}
+                {selectedNodeData.duration && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-400 flex items-center">
+                      <Clock className="w-4 h-4 mr-1" />
+                      Duration
+                    </label>
+                    <div className="font-mono text-cyan-400">
+                      {formatDuration(selectedNodeData.duration)}
+                    </div>
+                  </div>
+                )}
+
+                {selectedNodeData.libraryTime !== undefined && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-400 flex items-center">
+                      <Layers className="w-4 h-4 mr-1" />
+                      Library Time
+                    </label>
+                    <div className="font-mono text-gray-300">
+                      {formatDuration(selectedNodeData.libraryTime)}
+                      {selectedNodeData.duration ? ` (${Math.round((selectedNodeData.libraryTime / selectedNodeData.duration) * 100)}%)` : ''}
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">Spent in calls hidden by folding rules, counted as this call's self time.</p>
+                  </div>
+                )}
+
+                {selectedNodeData.parameters && selectedNodeData.parameters.length > 0 && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-400 mb-2 block">
+                      Parameters ({selectedNodeData.parameters.length})
+                    </label>
+                    <div className="space-y-2">
+                      {selectedNodeData.parameters.map((param, index) => (
+                        <div key={index} className="bg-gray-900 p-3 rounded">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-xs font-medium text-gray-500 bg-gray-700 px-2 py-1 rounded">
+                              {param.type}
                             </span>
-                          )}
+                            {param.name && (
+                              <span className="font-mono text-sm text-blue-400">
+                                {param.name}
+                              </span>
+                            )}
+                          </div>
+                          <div className="max-h-64 overflow-auto">
+                            <ValueInspector value={param.value} rootPath={param.name || param.type} onTrace={value => setTracedValue({ value })} />
+                          </div>
                         </div>
-                        <div className="font-mono text-sm text-gray-300 max-h-32 overflow-auto whitespace-pre-wrap">
-                          {formatValueFull(param.value)}
-                        </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {selectedNodeData.return_value !== null && selectedNodeData.return_value !== undefined && (
-                <div>
-                  <label className="text-sm font-medium text-gray-400 mb-2 block">Return Value</label>
-                  <div className="font-mono text-sm text-orange-400 bg-gray-900 p-3 rounded max-h-40 overflow-auto whitespace-pre-wrap">
-                    {formatValueFull(selectedNodeData.return_value)}
+                {selectedNodeData.return_value !== null && selectedNodeData.return_value !== undefined && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-400 mb-2 block">Return Value</label>
+                    <div className="bg-gray-900 p-3 rounded max-h-72 overflow-auto">
+                      <ValueInspector value={selectedNodeData.return_value} rootPath="return_value" onTrace={value => setTracedValue({ value })} />
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {selectedNodeData.path && (
-                <div>
-                  <label className="text-sm font-medium text-gray-400">Location</label>
-                  <div className="font-mono text-sm text-gray-300">
-                    {selectedNodeData.path}
-                    {selectedNodeData.lineno && `:${selectedNodeData.lineno}`}
+                {selectedNodeData.path && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-400">Location</label>
+                    <div className="font-mono text-sm text-gray-300">
+                      {selectedNodeData.path}
+                      {selectedNodeData.lineno && `:${selectedNodeData.lineno}`}
+                    </div>
                   </div>
-                </div>
-              )}
-            </div>
-          ) : (
-            <div className="text-center text-gray-500 py-8">
-              <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
-              <p>Select a node to view details</p>
-            </div>
-          )}
+                )}
+
+                {selectedNodeData.path && (
+                  <SourcePreview
+                    path={selectedNodeData.path}
+                    line={selectedNodeData.lineno}
+                    sources={sources}
+                    sourceRoot={sourceRoot}
+                    onSourceRootChange={setSourceRoot}
+                  />
+                )}
+              </div>
+            ) : (
+              <div className="text-center text-gray-500 py-8">
+                <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                <p>Select a node to view details</p>
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
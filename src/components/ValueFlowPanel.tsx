@@ -0,0 +1,88 @@
+import React from 'react';
+import { Crosshair, LogIn, LogOut, X } from 'lucide-react';
+import { formatValue } from '../utils/treeTransform';
+import { ValueFlowHit } from '../utils/valueFlow';
+
+interface ValueFlowPanelProps {
+  value: unknown;
+  hits: ValueFlowHit[];
+  selectedNodeId: string | null;
+  onNodeSelect: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+// Rows rendered at most; traces of common values can have thousands of hits
+const MAX_LISTED_HITS = 500;
+
+function methodLabel(hit: ValueFlowHit) {
+  const { node } = hit;
+  return node.defined_class ? `${node.defined_class}#${node.method_name}` : node.method_name;
+}
+
+export function ValueFlowPanel({ value, hits, selectedNodeId, onNodeSelect, onClose }: ValueFlowPanelProps) {
+  const producerCount = hits.filter(hit => hit.role === 'producer').length;
+
+  return (
+    <div className="p-3 bg-gray-900 border border-blue-800 rounded-lg">
+      <div className="flex justify-between items-center mb-1">
+        <h4 className="text-sm font-semibold text-blue-300 flex items-center">
+          <Crosshair className="w-4 h-4 mr-1" />
+          Value Flow
+        </h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Stop tracing">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="text-xs text-gray-400 mb-2">
+        <span className="font-mono text-gray-200 break-all">{formatValue(value, 40)}</span>
+        <div>
+          {producerCount} returned · {hits.length - producerCount} received
+        </div>
+      </div>
+
+      {hits.length === 0 ? (
+        <p className="text-xs text-gray-500">Not found in any parameter or return value.</p>
+      ) : (
+        <ol className="space-y-1 max-h-64 overflow-auto text-xs">
+          {hits.slice(0, MAX_LISTED_HITS).map((hit, i) => (
+            <li
+              key={`${hit.node.id}-${hit.role}`}
+              className={`p-1.5 rounded cursor-pointer hover:bg-gray-800 ${hit.node.id === selectedNodeId ? 'bg-gray-800' : ''}`}
+              onClick={() => onNodeSelect(hit.node.id)}
+            >
+              <div className="flex items-center gap-1 min-w-0">
+                <span className="text-gray-600 w-6 text-right flex-shrink-0">{i + 1}</span>
+                {hit.role === 'producer' ? (
+                  <LogOut className="w-3 h-3 text-green-400 flex-shrink-0" aria-label="Returned" />
+                ) : (
+                  <LogIn className="w-3 h-3 text-blue-400 flex-shrink-0" aria-label="Received" />
+                )}
+                <span className="font-mono text-gray-200 truncate">{methodLabel(hit)}</span>
+                {hit.match === 'substring' && (
+                  <span className="text-[10px] text-gray-500 bg-gray-700 px-1 rounded flex-shrink-0" title="Found inside a longer string">
+                    partial
+                  </span>
+                )}
+              </div>
+              <div className="ml-7 font-mono text-gray-500 truncate">{hit.location}</div>
+              {hit.producer && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onNodeSelect(hit.producer!.node.id);
+                  }}
+                  className="ml-7 text-green-400 hover:text-green-300 truncate max-w-full"
+                >
+                  ← from {methodLabel(hit.producer)}
+                </button>
+              )}
+            </li>
+          ))}
+          {hits.length > MAX_LISTED_HITS && (
+            <li className="text-gray-500 p-1.5">and {(hits.length - MAX_LISTED_HITS).toLocaleString()} more</li>
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Copy, Crosshair, Link, Search } from 'lucide-react';
+import { formatValue } from '../utils/treeTransform';
+import { childPath, describeValue, findValueMatches, getCopyText, getEntries, isContainer, ValueKind } from '../utils/valueInspector';
+
+interface ValueInspectorProps {
+  value: unknown;
+  // Name the value is reached by, used as the start of copied paths, e.g. "user" or "return_value"
+  rootPath: string;
+  // "Trace this value" action, offered on every value that could identify something
+  onTrace?: (value: unknown, path: string) => void;
+}
+
+// Children shown per "show more" step, so huge arrays don't render all at once
+const PAGE_SIZE = 100;
+// Containers up to this size start out expanded at the top level
+const AUTO_EXPAND_ENTRIES = 20;
+
+const KIND_COLORS: Record<ValueKind, string> = {
+  nil: 'text-gray-500',
+  boolean: 'text-purple-300',
+  integer: 'text-orange-300',
+  float: 'text-orange-300',
+  string: 'text-green-300',
+  symbol: 'text-cyan-300',
+  object: 'text-yellow-300',
+  truncated: 'text-gray-400 italic',
+  array: 'text-gray-400',
+  hash: 'text-gray-400',
+};
+
+async function copyToClipboard(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // Clipboard access can be denied outside secure contexts; nothing else to fall back to
+  }
+}
+
+function getInitialExpanded(value: unknown, rootPath: string): Set<string> {
+  const small = isContainer(value) && getEntries(value).length <= AUTO_EXPAND_ENTRIES;
+  return new Set(small ? [rootPath] : []);
+}
+
+export function ValueInspector({ value, rootPath, onTrace }: ValueInspectorProps) {
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState(() => getInitialExpanded(value, rootPath));
+  const [limits, setLimits] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    setExpanded(getInitialExpanded(value, rootPath));
+    setLimits(new Map());
+    setQuery('');
+  }, [value, rootPath]);
+
+  const search = useMemo(() => findValueMatches(value, rootPath, query), [value, rootPath, query]);
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const showMore = (path: string) => {
+    setLimits(prev => new Map(prev).set(path, (prev.get(path) ?? PAGE_SIZE) + PAGE_SIZE));
+  };
+
+  const renderNode = (key: string | number | null, current: unknown, path: string, depth: number): React.ReactNode => {
+    const info = describeValue(current);
+    const container = isContainer(current);
+    const isOpen = container && (expanded.has(path) || search.ancestors.has(path));
+    const isMatch = search.matches.has(path);
+    const entries = isOpen ? getEntries(current) : [];
+    const limit = limits.get(path) ?? PAGE_SIZE;
+
+    return (
+      <div key={path}>
+        <div
+          className={`group/value flex items-start gap-1 py-0.5 pr-1 rounded hover:bg-gray-800 ${isMatch ? 'bg-yellow-500/20' : ''}`}
+          style={{ paddingLeft: `${depth * 12}px` }}
+        >
+          {container ? (
+            <button onClick={() => toggle(path)} className="mt-0.5 text-gray-500 hover:text-gray-300 flex-shrink-0">
+              {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+          ) : (
+            <span className="w-3 flex-shrink-0" />
+          )}
+          {key !== null && (
+            <span className={`flex-shrink-0 ${typeof key === 'string' && key.startsWith(':') ? 'text-cyan-300' : 'text-blue-300'}`}>
+              {key}:
+            </span>
+          )}
+          <span
+            className={`min-w-0 whitespace-pre-wrap break-all ${KIND_COLORS[info.kind]} ${container ? 'cursor-pointer' : ''}`}
+            onClick={container ? () => toggle(path) : undefined}
+          >
+            {container ? (isOpen ? '' : formatValue(current, 40)) : info.text}
+          </span>
+          <span className="ml-auto flex-shrink-0 flex items-center gap-1">
+            <span className="hidden group-hover/value:flex items-center gap-1">
+              <button onClick={() => copyToClipboard(path)} className="text-gray-500 hover:text-gray-300" title={`Copy path ${path}`}>
+                <Link className="w-3 h-3" />
+              </button>
+              <button onClick={() => copyToClipboard(getCopyText(current))} className="text-gray-500 hover:text-gray-300" title="Copy value">
+                <Copy className="w-3 h-3" />
+              </button>
+              {onTrace && info.kind !== 'nil' && info.kind !== 'boolean' && (
+                <button onClick={() => onTrace(current, path)} className="text-gray-500 hover:text-gray-300" title="Trace this value">
+                  <Crosshair className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+            <span className="text-[10px] text-gray-500 bg-gray-700 px-1 rounded">{info.badge}</span>
+          </span>
+        </div>
+
+        {isOpen && (
+          <>
+            {entries.slice(0, limit).map(([childKey, child]) => renderNode(childKey, child, childPath(path, childKey), depth + 1))}
+            {entries.length > limit && (
+              <button
+                onClick={() => showMore(path)}
+                className="text-blue-400 hover:text-blue-300 py-0.5"
+                style={{ paddingLeft: `${(depth + 1) * 12 + 16}px` }}
+              >
+                Show {Math.min(PAGE_SIZE, entries.length - limit)} more of {(entries.length - limit).toLocaleString()}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="text-xs font-mono">
+      {isContainer(value) && (
+        <div className="flex items-center gap-2 mb-1">
+          <div className="relative flex-1">
+            <Search className="w-3 h-3 absolute left-2 top-1.5 text-gray-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search in value"
+              className="w-full pl-6 pr-2 py-0.5 bg-gray-800 border border-gray-700 rounded text-gray-200 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+          {query.trim() && (
+            <span className="text-gray-500 flex-shrink-0">{search.matches.size} found</span>
+          )}
+        </div>
+      )}
+      {renderNode(null, value, rootPath, 0)}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { TraceImporter } from './types';
+import { framesToEvents, groupRoots, ImportedFrame, nestIntervals } from './frames';
+
+// https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+interface ChromeTraceEvent {
+  name?: string;
+  ph?: string;
+  ts?: number;
+  dur?: number;
+  pid?: number | string;
+  tid?: number | string;
+  args?: Record<string, unknown>;
+}
+
+// Chrome timestamps are in microseconds
+const MICROSECONDS = 1e-6;
+
+function toFrame(event: ChromeTraceEvent, start: number, end: number): ImportedFrame {
+  return {
+    label: event.name ?? '(anonymous)',
+    start: start * MICROSECONDS,
+    end: end * MICROSECONDS,
+    parameters: event.args && Object.keys(event.args).length > 0
+      ? Object.entries(event.args).map(([name, value]) => ({ type: 'arg', name, value }))
+      : undefined,
+    children: [],
+  };
+}
+
+export const chromeTraceImporter: TraceImporter = {
+  id: 'chrome',
+  label: 'Chrome Trace Event',
+
+  detect: sample => /^\s*(\[\s*\{|\{[\s\S]*"traceEvents"\s*:)/.test(sample) && /"ph"\s*:/.test(sample),
+
+  convert(text) {
+    const parsed = JSON.parse(text);
+    const events: ChromeTraceEvent[] = Array.isArray(parsed) ? parsed : parsed.traceEvents;
+    if (!Array.isArray(events)) throw new Error('Chrome trace has no traceEvents array');
+
+    // Frames and open B events per thread
+    const threads = new Map<string, { label: string; frames: ImportedFrame[]; open: ChromeTraceEvent[] }>();
+    const getThread = (event: ChromeTraceEvent) => {
+      const key = `${event.pid ?? 0}:${event.tid ?? 0}`;
+      let thread = threads.get(key);
+      if (!thread) {
+        thread = { label: `Thread ${event.tid ?? 0}`, frames: [], open: [] };
+        threads.set(key, thread);
+      }
+      return thread;
+    };
+
+    for (const event of events) {
+      if (typeof event !== 'object' || event === null) continue;
+
+      switch (event.ph) {
+        case 'X':
+          if (typeof event.ts === 'number') {
+            getThread(event).frames.push(toFrame(event, event.ts, event.ts + (event.dur ?? 0)));
+          }
+          break;
+        case 'B':
+          getThread(event).open.push(event);
+          break;
+        case 'E': {
+          const begin = getThread(event).open.pop();
+          if (begin && typeof begin.ts === 'number' && typeof event.ts === 'number') {
+            getThread(event).frames.push(toFrame({ ...begin, args: { ...begin.args, ...event.args } }, begin.ts, event.ts));
+          }
+          break;
+        }
+        case 'M':
+          if (event.name === 'thread_name' && typeof event.args?.name === 'string') {
+            getThread(event).label = event.args.name;
+          }
+          break;
+      }
+    }
+
+    const roots = groupRoots([...threads.values()].map(thread => ({ label: thread.label, roots: nestIntervals(thread.frames) })));
+    return { events: framesToEvents(roots) };
+  },
+};
@@ -0,0 +1,68 @@
+import { TraceImporter } from './types';
+import { framesToEvents, ImportedFrame } from './frames';
+
+// Folded stacks only count samples; they are laid out as if sampled at 1 kHz
+const SAMPLE_SECONDS = 0.001;
+
+const LINE = /^(.+?)\s+(\d+(?:\.\d+)?)$/;
+
+interface StackNode {
+  label: string;
+  weight: number;
+  children: Map<string, StackNode>;
+}
+
+// Brendan Gregg's collapsed format: "main;Foo#bar;Baz#qux 42" per line.
+// Identical stacks are merged, so the tree shows aggregate time rather than call order.
+export const collapsedStacksImporter: TraceImporter = {
+  id: 'collapsed',
+  label: 'Collapsed stacks',
+
+  detect(sample) {
+    const lines = sample.split('\n').map(line => line.trim()).filter(Boolean);
+    // The last line of the sample may be cut off
+    const complete = (lines.length > 1 ? lines.slice(0, -1) : lines).slice(0, 20);
+    return complete.length > 0 && !/^[[{]/.test(complete[0]) && complete.every(line => LINE.test(line));
+  },
+
+  convert(text) {
+    const root: StackNode = { label: '', weight: 0, children: new Map() };
+
+    text.split('\n').forEach(line => {
+      const match = LINE.exec(line.trim());
+      if (!match) return;
+      const weight = Number(match[2]);
+
+      let node = root;
+      for (const label of match[1].split(';')) {
+        let child = node.children.get(label);
+        if (!child) {
+          child = { label, weight: 0, children: new Map() };
+          node.children.set(label, child);
+        }
+        child.weight += weight;
+        node = child;
+      }
+    });
+
+    // Lay children out back to back from their parent's start
+    function layout(node: StackNode, start: number): ImportedFrame {
+      const frame: ImportedFrame = { label: node.label, start, end: start + node.weight * SAMPLE_SECONDS, children: [] };
+      let offset = start;
+      node.children.forEach(child => {
+        frame.children.push(layout(child, offset));
+        offset += child.weight * SAMPLE_SECONDS;
+      });
+      return frame;
+    }
+
+    const roots: ImportedFrame[] = [];
+    let offset = 0;
+    root.children.forEach(child => {
+      roots.push(layout(child, offset));
+      offset += child.weight * SAMPLE_SECONDS;
+    });
+
+    return { events: framesToEvents(roots) };
+  },
+};
@@ -0,0 +1,94 @@
+import { Parameter, TreeNodeData } from '../types';
+
+// A frame of an imported profile, nested and timed, before it is flattened into events
+export interface ImportedFrame {
+  label: string;
+  start: number;
+  end: number;
+  parameters?: Parameter[];
+  children: ImportedFrame[];
+}
+
+interface FrameLocation {
+  method_name: string;
+  defined_class: string | null;
+  path: string | null;
+  lineno: number | null;
+}
+
+// Understands the usual Ruby profiler labels:
+//   "Foo::Bar#baz", "Foo.baz", "block in Foo#baz - app/foo.rb:12", "Foo#baz (app/foo.rb:12)"
+export function parseFrameLabel(label: string): FrameLocation {
+  let name = label.trim();
+  let path: string | null = null;
+  let lineno: number | null = null;
+
+  const location = /^(.*?)(?: - | \()([^\s()]+):(\d+)\)?$/.exec(name);
+  if (location) {
+    [, name, path] = location;
+    lineno = Number(location[3]);
+  }
+
+  const method = /^((?:(?:block(?: \(\d+ levels\))?|rescue|ensure) in )?)((?:[A-Z]\w*::)*[A-Z]\w*)([#.])(.+)$/.exec(name);
+  if (method) {
+    return { method_name: `${method[1]}${method[4]}`, defined_class: method[2], path, lineno };
+  }
+
+  return { method_name: name, defined_class: null, path, lineno };
+}
+
+// Emits frames depth-first as `call_return` events, which the tree builder nests by depth
+export function framesToEvents(roots: ImportedFrame[]): TreeNodeData[] {
+  const events: TreeNodeData[] = [];
+  const pending: Array<[ImportedFrame, number]> = roots.map(root => [root, 0] as [ImportedFrame, number]).reverse();
+
+  while (pending.length > 0) {
+    const [frame, depth] = pending.pop()!;
+    events.push({
+      event: 'call_return',
+      ...parseFrameLabel(frame.label),
+      parameters: frame.parameters ?? null,
+      return_value: null,
+      depth,
+      start_time: frame.start,
+      end_time: frame.end,
+      duration: frame.end - frame.start,
+    });
+    for (let i = frame.children.length - 1; i >= 0; i--) {
+      pending.push([frame.children[i], depth + 1]);
+    }
+  }
+
+  return events;
+}
+
+// Nests [start, end) intervals of one thread by containment, in start order
+export function nestIntervals(frames: ImportedFrame[]): ImportedFrame[] {
+  const sorted = [...frames].sort((a, b) => a.start - b.start || b.end - a.end);
+  const roots: ImportedFrame[] = [];
+  const stack: ImportedFrame[] = [];
+
+  for (const frame of sorted) {
+    while (stack.length > 0 && stack[stack.length - 1].end <= frame.start) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(frame);
+    else roots.push(frame);
+    stack.push(frame);
+  }
+
+  return roots;
+}
+
+// Wraps each group in a frame spanning its children when there is more than one
+// group (threads, profiles), so they don't interleave at the top level
+export function groupRoots(groups: Array<{ label: string; roots: ImportedFrame[] }>): ImportedFrame[] {
+  const nonEmpty = groups.filter(group => group.roots.length > 0);
+  if (nonEmpty.length === 1) return nonEmpty[0].roots;
+
+  return nonEmpty.map(group => ({
+    label: group.label,
+    start: group.roots.reduce((min, root) => Math.min(min, root.start), Infinity),
+    end: group.roots.reduce((max, root) => Math.max(max, root.end), -Infinity),
+    children: group.roots,
+  }));
+}
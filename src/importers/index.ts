@@ -0,0 +1,43 @@
+import { TraceStreamHandlers, TraceStreamParser } from '../utils/traceStream';
+import { ImportFormat, TraceImporter } from './types';
+import { chromeTraceImporter } from './chromeTrace';
+import { speedscopeImporter } from './speedscope';
+import { collapsedStacksImporter } from './collapsedStacks';
+
+export type { ImportFormat, TraceImporter } from './types';
+
+// Checked in order; speedscope goes first since its files can look like any JSON
+const IMPORTERS: TraceImporter[] = [speedscopeImporter, chromeTraceImporter, collapsedStacksImporter];
+
+const SAMPLE_BYTES = 64 * 1024;
+
+export function getImporter(id: ImportFormat): TraceImporter {
+  const importer = IMPORTERS.find(candidate => candidate.id === id);
+  if (!importer) throw new Error(`Unknown import format: ${id}`);
+  return importer;
+}
+
+// Returns the importer for a file from another profiler, or null for tp_tree traces
+export async function detectImportFormat(source: Blob): Promise<ImportFormat | null> {
+  const sample = await source.slice(0, SAMPLE_BYTES).text();
+  // tp_tree traces are handled natively even if they happen to look like something else
+  if (/"event"\s*:\s*"(call|return|call_return)"/.test(sample)) return null;
+  return IMPORTERS.find(importer => importer.detect(sample))?.id ?? null;
+}
+
+// Buffers the whole file, since other formats can't be turned into events
+// until every interval is known, then replays it through the usual handlers.
+export function createImportParser(importer: TraceImporter, { onEvent, onMeta }: TraceStreamHandlers): TraceStreamParser {
+  const chunks: string[] = [];
+
+  return {
+    write(chunk) {
+      chunks.push(chunk);
+    },
+    end() {
+      const { events, timestamp } = importer.convert(chunks.join(''));
+      if (timestamp) onMeta('timestamp', timestamp);
+      events.forEach((event, i) => onEvent(event, `frames[${i}]`));
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { TraceImporter } from './types';
+import { framesToEvents, groupRoots, ImportedFrame } from './frames';
+
+// https://github.com/jlfwong/speedscope/wiki/Importing-from-custom-sources
+interface SpeedscopeFrame {
+  name: string;
+  file?: string;
+  line?: number;
+}
+
+type SpeedscopeProfile =
+  | { type: 'evented'; name?: string; unit: string; startValue: number; events: Array<{ type: 'O' | 'C'; frame: number; at: number }> }
+  | { type: 'sampled'; name?: string; unit: string; startValue: number; samples: number[][]; weights: number[] };
+
+const UNIT_SECONDS: Record<string, number> = {
+  nanoseconds: 1e-9,
+  microseconds: 1e-6,
+  milliseconds: 1e-3,
+  seconds: 1,
+};
+
+function frameLabel(frame: SpeedscopeFrame | undefined): string {
+  if (!frame) return '(unknown)';
+  return frame.file ? `${frame.name} - ${frame.file}:${frame.line ?? 0}` : frame.name;
+}
+
+function convertEvented(profile: Extract<SpeedscopeProfile, { type: 'evented' }>, frames: SpeedscopeFrame[], scale: number) {
+  const roots: ImportedFrame[] = [];
+  const stack: ImportedFrame[] = [];
+
+  for (const event of profile.events) {
+    if (event.type === 'O') {
+      const frame: ImportedFrame = { label: frameLabel(frames[event.frame]), start: event.at * scale, end: event.at * scale, children: [] };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(frame);
+      else roots.push(frame);
+      stack.push(frame);
+    } else {
+      const frame = stack.pop();
+      if (frame) frame.end = event.at * scale;
+    }
+  }
+
+  return roots;
+}
+
+// Samples become a timeline: a frame stays open for as long as consecutive
+// samples share the same stack prefix, like speedscope's time-ordered view
+function convertSampled(profile: Extract<SpeedscopeProfile, { type: 'sampled' }>, frames: SpeedscopeFrame[], scale: number) {
+  const roots: ImportedFrame[] = [];
+  const open: Array<{ frameIndex: number; frame: ImportedFrame }> = [];
+  let time = profile.startValue;
+
+  profile.samples.forEach((sample, i) => {
+    let common = 0;
+    while (common < open.length && common < sample.length && open[common].frameIndex === sample[common]) common++;
+    open.splice(common).forEach(({ frame }) => {
+      frame.end = time * scale;
+    });
+
+    for (let depth = common; depth < sample.length; depth++) {
+      const frame: ImportedFrame = { label: frameLabel(frames[sample[depth]]), start: time * scale, end: time * scale, children: [] };
+      const parent = open[depth - 1]?.frame;
+      if (parent) parent.children.push(frame);
+      else roots.push(frame);
+      open.push({ frameIndex: sample[depth], frame });
+    }
+
+    time += profile.weights[i] ?? 0;
+  });
+
+  open.forEach(({ frame }) => {
+    frame.end = time * scale;
+  });
+  return roots;
+}
+
+export const speedscopeImporter: TraceImporter = {
+  id: 'speedscope',
+  label: 'speedscope',
+
+  detect: sample => sample.includes('speedscope.app/file-format-schema.json'),
+
+  convert(text) {
+    const parsed = JSON.parse(text);
+    const frames: SpeedscopeFrame[] = parsed.shared?.frames ?? [];
+    const profiles: SpeedscopeProfile[] = parsed.profiles ?? [];
+
+    const groups = profiles.map((profile, i) => {
+      // Non-time units (e.g. bytes) are shown as if they were seconds
+      const scale = UNIT_SECONDS[profile.unit] ?? 1;
+      const roots = profile.type === 'evented'
+        ? convertEvented(profile, frames, scale)
+        : convertSampled(profile, frames, scale);
+      return { label: profile.name || `Profile ${i + 1}`, roots };
+    });
+
+    return { events: framesToEvents(groupRoots(groups)) };
+  },
+};
@@ -0,0 +1,18 @@
+import { TreeNodeData } from '../types';
+
+export type ImportFormat = 'chrome' | 'speedscope' | 'collapsed';
+
+export interface ImportedTrace {
+  events: TreeNodeData[];
+  timestamp?: string;
+}
+
+// Converts another profiler's output into tp_tree events. Importers run in the
+// loader worker, so `convert` gets the whole file as text.
+export interface TraceImporter {
+  id: ImportFormat;
+  label: string;
+  // Called with the start of the file; should be cheap and not expect complete JSON
+  detect(sample: string): boolean;
+  convert(text: string): ImportedTrace;
+}
@@ -24,10 +24,71 @@ export interface TPTreeData {
   events: TreeNodeData[];
 }
 
+// 'unterminated': a call that never got its return (exception, throw, truncated trace)
+// 'unmatched': a return with no open call to pair it with
+export type NodeStatus = 'unterminated' | 'unmatched';
+
 export interface TreeNodeDisplay extends TreeNodeData {
   id: string;
   children: TreeNodeDisplay[];
   isExpanded: boolean;
   level: number;
   parent?: TreeNodeDisplay;
-}
\ No newline at end of file
+  status?: NodeStatus;
+  // Time spent in library frames folded away below this call
+  libraryTime?: number;
+}
+export interface TraceMetadata {
+  version: string;
+  timestamp: string;
+  // Set when events were upgraded from an older format `version` to this one
+  migratedTo?: string;
+  // Name of the profiler format the trace was imported from, e.g. "speedscope"
+  source?: string;
+}
+
+export interface LoadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  eventCount: number;
+}
+
+// A problem at a location in the trace JSON, e.g. path "events[1532].depth"
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type DiagnosticKind = 'depth-jump' | 'negative-duration' | 'non-monotonic-start' | 'unknown-version';
+
+export interface TraceDiagnostic extends ValidationIssue {
+  kind: DiagnosticKind;
+}
+
+// Only the first few warnings and issues are kept; the counts cover all of them
+export interface TraceDiagnostics {
+  warnings: TraceDiagnostic[];
+  warningCount: number;
+  // Invalid events dropped when loading with `skipInvalid`
+  skippedCount: number;
+  skippedIssues: ValidationIssue[];
+}
+
+// Source files embedded in a trace under "sources", keyed by the paths used in events
+export type SourceBundle = Record<string, string>;
+
+export interface LoadedTrace {
+  tree: TreeNodeDisplay[];
+  metadata: TraceMetadata;
+  eventCount: number;
+  diagnostics: TraceDiagnostics;
+  sources: SourceBundle | null;
+  // Hash of the file's bytes, identifying the trace for saved bookmarks and notes
+  contentHash: string;
+}
+
+// Absolute time window in seconds, in the same clock as start_time / end_time
+export interface TimeRange {
+  start: number;
+  end: number;
+}
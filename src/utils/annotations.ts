@@ -0,0 +1,117 @@
+import { safeLocalStorage } from './storage';
+
+// Bookmarks and notes on calls. They are saved per trace, keyed by the trace's content
+// hash, and refer to calls by node id, which is stable for the same file.
+export interface NodeAnnotation {
+  nodeId: string;
+  // `Class#method` of the call, for listing it without looking the node up
+  label: string;
+  bookmarked: boolean;
+  note: string;
+  updatedAt: number;
+}
+
+// The JSON sidecar file shared alongside a trace
+export interface AnnotationSidecar {
+  format: typeof SIDECAR_FORMAT;
+  version: 1;
+  traceHash: string | null;
+  annotations: NodeAnnotation[];
+}
+
+const SIDECAR_FORMAT = 'tp-tree-viewer-annotations';
+const STORAGE_PREFIX = 'tp-tree-viewer:annotations:';
+
+export function loadAnnotations(traceHash: string | null): NodeAnnotation[] {
+  if (!traceHash) return [];
+  const stored = safeLocalStorage.get(STORAGE_PREFIX + traceHash);
+  if (!stored) return [];
+  try {
+    const annotations = JSON.parse(stored);
+    return Array.isArray(annotations) ? annotations.filter(isNodeAnnotation) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Without a hash (e.g. live traces) annotations only last for the session
+export function saveAnnotations(traceHash: string | null, annotations: NodeAnnotation[]) {
+  if (!traceHash) return;
+  if (annotations.length > 0) {
+    safeLocalStorage.set(STORAGE_PREFIX + traceHash, JSON.stringify(annotations));
+  } else {
+    safeLocalStorage.remove(STORAGE_PREFIX + traceHash);
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null ? value as Record<string, unknown> : null;
+}
+
+function isNodeAnnotation(value: unknown): value is NodeAnnotation {
+  const annotation = asRecord(value);
+  return typeof annotation?.nodeId === 'string'
+    && typeof annotation.label === 'string'
+    && typeof annotation.bookmarked === 'boolean'
+    && typeof annotation.note === 'string'
+    && typeof annotation.updatedAt === 'number';
+}
+
+// Returns a new list; annotations left with neither a bookmark nor a note are dropped
+export function updateAnnotation(
+  annotations: NodeAnnotation[],
+  nodeId: string,
+  label: string,
+  changes: Partial<Pick<NodeAnnotation, 'bookmarked' | 'note'>>
+): NodeAnnotation[] {
+  const existing = annotations.find(annotation => annotation.nodeId === nodeId);
+  const updated: NodeAnnotation = {
+    nodeId,
+    label,
+    bookmarked: false,
+    note: '',
+    ...existing,
+    ...changes,
+    updatedAt: Date.now(),
+  };
+  const keep = updated.bookmarked || updated.note !== '';
+
+  if (!existing) return keep ? [...annotations, updated] : annotations;
+  return keep
+    ? annotations.map(annotation => (annotation === existing ? updated : annotation))
+    : annotations.filter(annotation => annotation !== existing);
+}
+
+// Imported annotations replace existing ones on the same call
+export function mergeAnnotations(current: NodeAnnotation[], imported: NodeAnnotation[]): NodeAnnotation[] {
+  const importedIds = new Set(imported.map(annotation => annotation.nodeId));
+  return [...current.filter(annotation => !importedIds.has(annotation.nodeId)), ...imported];
+}
+
+export function toAnnotationSidecar(traceHash: string | null, annotations: NodeAnnotation[]): string {
+  const sidecar: AnnotationSidecar = { format: SIDECAR_FORMAT, version: 1, traceHash, annotations };
+  return JSON.stringify(sidecar, null, 2);
+}
+
+export function parseAnnotationSidecar(text: string): AnnotationSidecar {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const sidecar = asRecord(value);
+  if (sidecar?.format !== SIDECAR_FORMAT || !Array.isArray(sidecar.annotations)) {
+    throw new Error('Not a TP Tree Viewer notes file');
+  }
+  if (sidecar.version !== 1) {
+    throw new Error(`Unsupported notes file version ${sidecar.version}`);
+  }
+
+  return {
+    format: SIDECAR_FORMAT,
+    version: 1,
+    traceHash: typeof sidecar.traceHash === 'string' ? sidecar.traceHash : null,
+    annotations: sidecar.annotations.filter(isNodeAnnotation),
+  };
+}
@@ -0,0 +1,71 @@
+import { TreeNodeDisplay } from '../types';
+import { analyzePerformance, getMethodKey, MethodStats } from './performanceStats';
+
+export interface CallGraphEdge {
+  caller: string;
+  callee: string;
+  calls: number;
+  // Inclusive time of the callee when called from this caller
+  time: number;
+}
+
+export interface CallGraph {
+  methods: Map<string, MethodStats>;
+  edges: CallGraphEdge[];
+  callersOf: Map<string, CallGraphEdge[]>;
+  calleesOf: Map<string, CallGraphEdge[]>;
+}
+
+// One vertex per Class#method, one edge per caller→callee pair, derived from the parent links
+export function buildCallGraph(data: TreeNodeDisplay[]): CallGraph {
+  const methods = new Map(analyzePerformance(data).methods.map(stats => [stats.key, stats]));
+  const edgesByKey = new Map<string, CallGraphEdge>();
+
+  // Edges on the current call path, so in a recursive chain (A→B→A→B) only the outermost
+  // call adds its time, like activeMethods in analyzePerformance
+  const activeEdges = new Map<string, number>();
+  // Nodes to visit, and the edge keys to release once a node's subtree is done
+  const pending: Array<TreeNodeDisplay | string> = [...data];
+  while (pending.length > 0) {
+    const item = pending.pop()!;
+    if (typeof item === 'string') {
+      activeEdges.set(item, activeEdges.get(item)! - 1);
+      continue;
+    }
+
+    const node = item;
+    if (!node.parent) {
+      for (const child of node.children) pending.push(child);
+      continue;
+    }
+
+    const caller = getMethodKey(node.parent);
+    const callee = getMethodKey(node);
+    const edgeKey = `${caller}->${callee}`;
+
+    let edge = edgesByKey.get(edgeKey);
+    if (!edge) {
+      edge = { caller, callee, calls: 0, time: 0 };
+      edgesByKey.set(edgeKey, edge);
+    }
+    edge.calls += 1;
+    const active = activeEdges.get(edgeKey) || 0;
+    if (active === 0) edge.time += node.duration || 0;
+
+    activeEdges.set(edgeKey, active + 1);
+    pending.push(edgeKey);
+    for (const child of node.children) pending.push(child);
+  }
+
+  const edges = [...edgesByKey.values()].sort((a, b) => b.time - a.time);
+  const callersOf = new Map<string, CallGraphEdge[]>();
+  const calleesOf = new Map<string, CallGraphEdge[]>();
+  edges.forEach(edge => {
+    if (!callersOf.has(edge.callee)) callersOf.set(edge.callee, []);
+    if (!calleesOf.has(edge.caller)) calleesOf.set(edge.caller, []);
+    callersOf.get(edge.callee)!.push(edge);
+    calleesOf.get(edge.caller)!.push(edge);
+  });
+
+  return { methods, edges, callersOf, calleesOf };
+}
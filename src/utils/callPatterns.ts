@@ -0,0 +1,139 @@
+import { TreeNodeDisplay } from '../types';
+import { getMethodKey } from './performanceStats';
+
+// 'fan-out': one caller invoking the same method many times with different arguments (N+1 queries)
+// 'sibling-run': the same method called back to back under one caller
+// 'memoizable': calls anywhere in the trace with identical arguments and return value
+export type CallPatternKind = 'fan-out' | 'sibling-run' | 'memoizable';
+
+export interface CallPattern {
+  kind: CallPatternKind;
+  key: string;
+  // The common caller; null for memoization candidates and top-level calls
+  parent: TreeNodeDisplay | null;
+  // In call order
+  nodes: TreeNodeDisplay[];
+  totalTime: number;
+  // Distinct argument lists among `nodes`
+  distinctArguments: number;
+}
+
+export interface CallPatterns {
+  fanOuts: CallPattern[];
+  siblingRuns: CallPattern[];
+  memoizable: CallPattern[];
+}
+
+const MIN_FAN_OUT = 5;
+const MIN_SIBLING_RUN = 3;
+const MIN_MEMOIZABLE = 2;
+// Values serialized beyond this size aren't worth comparing; a cache key that large is unlikely anyway
+const MAX_SIGNATURE_LENGTH = 10_000;
+
+// Lower bound on the length of JSON.stringify(value), giving up as soon as it passes `limit`,
+// so a huge parameter or return value is ruled out without serializing all of it
+function exceedsLength(value: unknown, limit: number): boolean {
+  let length = 0;
+  const pending: unknown[] = [value];
+  while (pending.length > 0) {
+    const item = pending.pop();
+    if (typeof item === 'string') {
+      length += item.length + 2;
+    } else if (Array.isArray(item)) {
+      length += item.length + 1;
+      if (length > limit) return true;
+      for (const element of item) pending.push(element);
+    } else if (typeof item === 'object' && item !== null) {
+      length += 2;
+      for (const key in item) {
+        length += key.length + 4;
+        if (length > limit) return true;
+        pending.push((item as Record<string, unknown>)[key]);
+      }
+    } else {
+      length += 1;
+    }
+    if (length > limit) return true;
+  }
+  return false;
+}
+
+// Null when the arguments are too large to be worth comparing
+function getArgumentSignature(node: TreeNodeDisplay): string | null {
+  const args = node.parameters?.map(param => [param.name, param.value]) ?? [];
+  return exceedsLength(args, MAX_SIGNATURE_LENGTH) ? null : JSON.stringify(args);
+}
+
+function createPattern(kind: CallPatternKind, parent: TreeNodeDisplay | null, nodes: TreeNodeDisplay[]): CallPattern {
+  return {
+    kind,
+    key: getMethodKey(nodes[0]),
+    parent,
+    nodes,
+    totalTime: nodes.reduce((sum, node) => sum + (node.duration || 0), 0),
+    // Oversized argument lists count as distinct
+    distinctArguments: new Set(nodes.map(node => getArgumentSignature(node) ?? node.id)).size,
+  };
+}
+
+export function detectCallPatterns(data: TreeNodeDisplay[]): CallPatterns {
+  const fanOuts: CallPattern[] = [];
+  const siblingRuns: CallPattern[] = [];
+  const callsBySignature = new Map<string, TreeNodeDisplay[]>();
+
+  function visitChildren(parent: TreeNodeDisplay | null, children: TreeNodeDisplay[]) {
+    const byMethod = new Map<string, TreeNodeDisplay[]>();
+    children.forEach(child => {
+      const key = getMethodKey(child);
+      if (!byMethod.has(key)) byMethod.set(key, []);
+      byMethod.get(key)!.push(child);
+    });
+
+    const fannedOut = new Set<string>();
+    byMethod.forEach((calls, key) => {
+      if (calls.length < MIN_FAN_OUT) return;
+      const pattern = createPattern('fan-out', parent, calls);
+      if (pattern.distinctArguments < 2) return;
+      fanOuts.push(pattern);
+      fannedOut.add(key);
+    });
+
+    // Runs already explained by a fan-out aren't listed again
+    let runStart = 0;
+    for (let i = 1; i <= children.length; i++) {
+      const key = getMethodKey(children[runStart]);
+      if (i < children.length && getMethodKey(children[i]) === key) continue;
+      if (i - runStart >= MIN_SIBLING_RUN && !fannedOut.has(key)) {
+        siblingRuns.push(createPattern('sibling-run', parent, children.slice(runStart, i)));
+      }
+      runStart = i;
+    }
+
+    children.forEach(child => {
+      const args = getArgumentSignature(child);
+      const returned = child.return_value ?? null;
+      const signature = args !== null && !exceedsLength(returned, MAX_SIGNATURE_LENGTH)
+        ? `${getMethodKey(child)}(${args}) → ${JSON.stringify(returned)}`
+        : null;
+      if (signature !== null && signature.length <= MAX_SIGNATURE_LENGTH) {
+        if (!callsBySignature.has(signature)) callsBySignature.set(signature, []);
+        callsBySignature.get(signature)!.push(child);
+      }
+      if (child.children.length > 0) visitChildren(child, child.children);
+    });
+  }
+
+  if (data.length > 0) visitChildren(null, data);
+
+  const memoizable: CallPattern[] = [];
+  callsBySignature.forEach(calls => {
+    if (calls.length >= MIN_MEMOIZABLE) memoizable.push(createPattern('memoizable', null, calls));
+  });
+
+  const byTime = (a: CallPattern, b: CallPattern) => b.totalTime - a.totalTime || b.nodes.length - a.nodes.length;
+  return {
+    fanOuts: fanOuts.sort(byTime),
+    siblingRuns: siblingRuns.sort(byTime),
+    memoizable: memoizable.sort(byTime),
+  };
+}
@@ -0,0 +1,35 @@
+import { safeLocalStorage } from './storage';
+
+export interface EditorPreset {
+  label: string;
+  template: string;
+}
+
+// `{path}` is the path as recorded in the trace and `{line}` the line number
+export const EDITOR_PRESETS: EditorPreset[] = [
+  { label: 'VS Code', template: 'vscode://file/{path}:{line}' },
+  { label: 'Cursor', template: 'cursor://file/{path}:{line}' },
+  { label: 'RubyMine / IntelliJ', template: 'idea://open?file={path}&line={line}' },
+  { label: 'Sublime Text', template: 'subl://open?url=file://{path}&line={line}' },
+];
+
+const STORAGE_KEY = 'tp-tree-viewer:editor-url';
+
+export function getEditorTemplate(): string | null {
+  return safeLocalStorage.get(STORAGE_KEY);
+}
+
+// Pass null to stop showing "Open in editor" links
+export function setEditorTemplate(template: string | null) {
+  if (template) {
+    safeLocalStorage.set(STORAGE_KEY, template);
+  } else {
+    safeLocalStorage.remove(STORAGE_KEY);
+  }
+}
+
+export function buildEditorUrl(template: string, path: string, line: number | null): string {
+  return template
+    .replace(/\{path\}/g, encodeURI(path))
+    .replace(/\{line\}/g, String(line ?? 1));
+}
@@ -0,0 +1,146 @@
+import { TreeNodeDisplay } from '../types';
+import { safeLocalStorage } from './storage';
+
+// 'path': glob on the call's source path, where `*` matches anything (including `/`)
+// 'class': regular expression on `defined_class`
+export type FoldingRuleKind = 'path' | 'class';
+
+export interface FoldingRule {
+  id: string;
+  kind: FoldingRuleKind;
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface FoldResult {
+  tree: TreeNodeDisplay[];
+  foldedCount: number;
+  // Time spent in folded frames, summed over the whole trace
+  libraryTime: number;
+}
+
+// Offered on first use, all switched off
+export const DEFAULT_FOLDING_RULES: FoldingRule[] = [
+  { id: 'gems', kind: 'path', pattern: '*/gems/*', enabled: false },
+  { id: 'stdlib', kind: 'path', pattern: '*/lib/ruby/[0-9]*', enabled: false },
+  { id: 'rails', kind: 'class', pattern: '^(ActiveSupport|ActiveRecord|ActionView|ActionDispatch|ActionController)::', enabled: false },
+];
+
+const STORAGE_KEY = 'tp-tree-viewer:folding-rules';
+
+export function loadFoldingRules(): FoldingRule[] {
+  const stored = safeLocalStorage.get(STORAGE_KEY);
+  if (stored) {
+    try {
+      const rules = JSON.parse(stored);
+      if (Array.isArray(rules)) return rules.filter(isFoldingRule);
+    } catch {
+      // Unreadable rules just mean starting from the defaults
+    }
+  }
+  return DEFAULT_FOLDING_RULES;
+}
+
+export function saveFoldingRules(rules: FoldingRule[]) {
+  safeLocalStorage.set(STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function createFoldingRule(kind: FoldingRuleKind, pattern: string): FoldingRule {
+  return { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`, kind, pattern, enabled: true };
+}
+
+function isFoldingRule(value: unknown): value is FoldingRule {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.id === 'string'
+    && (rule.kind === 'path' || rule.kind === 'class')
+    && typeof rule.pattern === 'string'
+    && typeof rule.enabled === 'boolean';
+}
+
+// `*` matches any run of characters, `?` a single one and `[...]` a character class
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[' && glob.indexOf(']', i + 2) > i) {
+      const end = glob.indexOf(']', i + 2);
+      source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function compileRule(rule: FoldingRule): RegExp {
+  return rule.kind === 'path' ? globToRegExp(rule.pattern) : new RegExp(rule.pattern);
+}
+
+// Null when the pattern compiles, otherwise the reason it doesn't
+export function getFoldingRuleError(rule: FoldingRule): string | null {
+  if (!rule.pattern.trim()) return 'Pattern is empty';
+  try {
+    compileRule(rule);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : 'Invalid pattern';
+  }
+}
+
+// Null when no valid rule is enabled
+function compileFoldingRules(rules: FoldingRule[]): ((node: TreeNodeDisplay) => boolean) | null {
+  const active = rules.filter(rule => rule.enabled && getFoldingRuleError(rule) === null);
+  if (active.length === 0) return null;
+
+  const pathPatterns = active.filter(rule => rule.kind === 'path').map(compileRule);
+  const classPatterns = active.filter(rule => rule.kind === 'class').map(compileRule);
+  return node =>
+    (node.path !== null && pathPatterns.some(pattern => pattern.test(node.path!)))
+    || (node.defined_class !== null && classPatterns.some(pattern => pattern.test(node.defined_class!)));
+}
+
+// Copies the tree without the frames matching `rules`. A folded frame's children take its
+// place under the nearest kept ancestor, which gets the folded time as `libraryTime`.
+// Top-level calls are always kept, so folded time has somewhere to go.
+export function foldTree(data: TreeNodeDisplay[], rules: FoldingRule[]): FoldResult {
+  const matches = compileFoldingRules(rules);
+  if (!matches) return { tree: data, foldedCount: 0, libraryTime: 0 };
+
+  let foldedCount = 0;
+  let libraryTime = 0;
+
+  function collectChildren(nodes: TreeNodeDisplay[], parent: TreeNodeDisplay, insideFold: boolean) {
+    for (const node of nodes) {
+      if (!matches!(node)) {
+        parent.children.push(copyNode(node, parent));
+        continue;
+      }
+
+      foldedCount++;
+      const hoistedFrom = parent.children.length;
+      collectChildren(node.children, parent, true);
+
+      // Nested folded frames are already covered by the outermost one
+      if (insideFold) continue;
+      const hoistedTime = parent.children.slice(hoistedFrom).reduce((sum, child) => sum + (child.duration || 0), 0);
+      const time = Math.max((node.duration || 0) - hoistedTime, 0);
+      parent.libraryTime = (parent.libraryTime || 0) + time;
+      libraryTime += time;
+    }
+  }
+
+  function copyNode(node: TreeNodeDisplay, parent?: TreeNodeDisplay): TreeNodeDisplay {
+    const depth = parent ? parent.depth + 1 : node.depth;
+    const copy: TreeNodeDisplay = { ...node, parent, depth, level: depth, children: [], libraryTime: undefined };
+    collectChildren(node.children, copy, false);
+    return copy;
+  }
+
+  return { tree: data.map(node => copyNode(node)), foldedCount, libraryTime };
+}
@@ -0,0 +1,44 @@
+// Transport for live mode: a WebSocket (ws:// or wss://) or an EventSource
+// (http:// or https://, Server-Sent Events) that delivers raw message strings.
+
+export type LiveStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+export interface LiveSourceHandlers {
+  onMessage: (data: string) => void;
+  onStatus: (status: LiveStatus) => void;
+}
+
+export interface LiveConnection {
+  close(): void;
+}
+
+export function connectLive(url: string, { onMessage, onStatus }: LiveSourceHandlers): LiveConnection {
+  const { protocol } = new URL(url, window.location.href);
+  onStatus('connecting');
+
+  if (protocol === 'ws:' || protocol === 'wss:') {
+    const socket = new WebSocket(url);
+    let closedByUser = false;
+    socket.onopen = () => onStatus('open');
+    socket.onmessage = e => {
+      if (typeof e.data === 'string') onMessage(e.data);
+    };
+    socket.onerror = () => onStatus('error');
+    socket.onclose = () => {
+      if (!closedByUser) onStatus('closed');
+    };
+    return {
+      close: () => {
+        closedByUser = true;
+        socket.close();
+      },
+    };
+  }
+
+  // EventSource reconnects on its own after errors, so only a CLOSED state is final
+  const source = new EventSource(url);
+  source.onopen = () => onStatus('open');
+  source.onmessage = e => onMessage(e.data);
+  source.onerror = () => onStatus(source.readyState === EventSource.CLOSED ? 'error' : 'connecting');
+  return { close: () => source.close() };
+}
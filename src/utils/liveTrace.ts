@@ -0,0 +1,90 @@
+import { TraceMetadata, TreeNodeData, TreeNodeDisplay } from '../types';
+import { createTreeBuilder } from './treeTransform';
+import { isMetadataRecord } from './traceStream';
+import { CURRENT_FORMAT_VERSION, resolveTraceFormat, TraceFormat } from './traceFormat';
+import { validateEvent } from './traceValidation';
+
+export interface LiveTraceStats {
+  // Events received over the connection, valid or not
+  receivedCount: number;
+  skippedCount: number;
+  // Nodes forgotten to stay within the buffer limit
+  droppedCount: number;
+}
+
+export interface LiveTrace {
+  // One message from the live endpoint: a single event, an array of events, or NDJSON lines
+  pushMessage(data: string): void;
+  snapshot(): TreeNodeDisplay[];
+  readonly metadata: TraceMetadata;
+  readonly stats: LiveTraceStats;
+}
+
+function parseMessage(data: string): unknown[] {
+  const values: unknown[] = [];
+  for (const line of data.split('\n')) {
+    const text = line.trim();
+    if (!text) continue;
+    const value = JSON.parse(text);
+    if (Array.isArray(value)) {
+      for (const item of value) values.push(item);
+    } else {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+// Builds a tree from events as a running Ruby process emits them. Unlike file
+// loads there is nobody to ask about invalid events, so they are skipped and counted.
+// Throws UnsupportedFormatError if the stream declares a format this viewer can't read.
+export function createLiveTrace({ maxNodes }: { maxNodes: number }): LiveTrace {
+  const builder = createTreeBuilder();
+  const metadata: TraceMetadata = { version: 'unknown', timestamp: new Date().toISOString() };
+  const stats: LiveTraceStats = { receivedCount: 0, skippedCount: 0, droppedCount: 0 };
+  let declaredVersion: string | null = null;
+  let format: TraceFormat | null = null;
+
+  function handleValue(value: unknown) {
+    if (isMetadataRecord(value)) {
+      if (typeof value.timestamp === 'string') metadata.timestamp = value.timestamp;
+      if (value.version !== undefined && !format) {
+        declaredVersion = String(value.version);
+        metadata.version = declaredVersion;
+      }
+      return;
+    }
+
+    stats.receivedCount++;
+    if (!format) {
+      format = resolveTraceFormat(declaredVersion);
+      if (format.migrated) metadata.migratedTo = CURRENT_FORMAT_VERSION;
+    }
+
+    const event = format.migrateEvent(value);
+    if (validateEvent(event, `event ${stats.receivedCount}`).length > 0) {
+      stats.skippedCount++;
+      return;
+    }
+    builder.push(event as TreeNodeData);
+  }
+
+  return {
+    pushMessage(data: string) {
+      let values: unknown[];
+      try {
+        values = parseMessage(data);
+      } catch {
+        stats.receivedCount++;
+        stats.skippedCount++;
+        return;
+      }
+
+      values.forEach(handleValue);
+      stats.droppedCount += builder.evictOldest(maxNodes);
+    },
+    snapshot: () => builder.snapshot(),
+    metadata,
+    stats,
+  };
+}
@@ -0,0 +1,198 @@
+import { TreeNodeDisplay } from '../types';
+import { getSelfTime } from './treeTransform';
+
+export interface MethodStats {
+  key: string;
+  method_name: string;
+  class_name: string | null;
+  // Inclusive time, counting each recursive stack only once
+  total_time: number;
+  // Exclusive time summed over all calls
+  self_time: number;
+  // Part of self_time spent in frames hidden by folding rules
+  library_time: number;
+  call_count: number;
+  average_time: number;
+  max_time: number;
+  min_time: number;
+  node_ids: string[];
+  distribution: MethodDistribution;
+}
+
+// Spread of a method's per-call durations, for spotting the odd slow iteration
+export interface MethodDistribution {
+  p50: number;
+  p90: number;
+  p99: number;
+  // Call counts in HISTOGRAM_BINS equal-width buckets from min_time to max_time
+  histogram: number[];
+  // Calls above the upper Tukey fence (Q3 + 1.5 × IQR), slowest first
+  outliers: MethodOutlier[];
+}
+
+export interface MethodOutlier {
+  node: TreeNodeDisplay;
+  duration: number;
+  // Standard deviations above the mean
+  zScore: number;
+}
+
+export interface PerformanceSummary {
+  methods: MethodStats[];
+  slowCalls: TreeNodeDisplay[];
+  // Outlier calls of every method, most unusual first
+  outliers: Array<MethodOutlier & { stats: MethodStats }>;
+  totalTime: number;
+  totalSelfTime: number;
+  averageCallTime: number;
+  totalCalls: number;
+}
+
+export const HISTOGRAM_BINS = 12;
+// Fewer calls than this don't make a distribution worth flagging outliers in
+const MIN_OUTLIER_SAMPLES = 4;
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function analyzeDistribution(calls: TreeNodeDisplay[]): MethodDistribution {
+  const durations = calls.map(node => node.duration!);
+  const sorted = [...durations].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  const histogram = new Array(HISTOGRAM_BINS).fill(0);
+  const binWidth = (max - min) / HISTOGRAM_BINS;
+  durations.forEach(duration => {
+    const bin = binWidth > 0 ? Math.min(Math.floor((duration - min) / binWidth), HISTOGRAM_BINS - 1) : 0;
+    histogram[bin]++;
+  });
+
+  const outliers: MethodOutlier[] = [];
+  if (durations.length >= MIN_OUTLIER_SAMPLES) {
+    const q1 = percentile(sorted, 0.25);
+    const q3 = percentile(sorted, 0.75);
+    const upperFence = q3 + 1.5 * (q3 - q1);
+    const mean = durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+    const stdDev = Math.sqrt(durations.reduce((sum, duration) => sum + (duration - mean) ** 2, 0) / durations.length);
+
+    calls.forEach((node, i) => {
+      if (durations[i] > upperFence) {
+        outliers.push({ node, duration: durations[i], zScore: stdDev > 0 ? (durations[i] - mean) / stdDev : 0 });
+      }
+    });
+    outliers.sort((a, b) => b.duration - a.duration);
+  }
+
+  return {
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    p99: percentile(sorted, 0.99),
+    histogram,
+    outliers,
+  };
+}
+
+export function getMethodKey(node: { defined_class: string | null; method_name: string }): string {
+  return `${node.defined_class || 'Unknown'}#${node.method_name}`;
+}
+
+export function analyzePerformance(data: TreeNodeDisplay[]): PerformanceSummary {
+  const methodStats: { [key: string]: MethodStats } = {};
+  const methodCalls: { [key: string]: TreeNodeDisplay[] } = {};
+  // Per-invocation duration sums for averages, where nested recursive calls do count
+  const summedDurations: { [key: string]: number } = {};
+  const allNodes: TreeNodeDisplay[] = [];
+  // Keys of the methods currently on the stack, to avoid double counting recursion
+  const activeMethods = new Map<string, number>();
+
+  // Flatten all nodes and analyze each method
+  function collectNodes(nodes: TreeNodeDisplay[]) {
+    nodes.forEach(node => {
+      allNodes.push(node);
+      const key = getMethodKey(node);
+      const isNested = (activeMethods.get(key) || 0) > 0;
+
+      recordCall(node, key, isNested);
+
+      activeMethods.set(key, (activeMethods.get(key) || 0) + 1);
+      collectNodes(node.children);
+      activeMethods.set(key, activeMethods.get(key)! - 1);
+    });
+  }
+
+  function recordCall(node: TreeNodeDisplay, key: string, isNested: boolean) {
+    if (!node.duration || node.duration <= 0) return;
+
+    if (!methodStats[key]) {
+      methodStats[key] = {
+        key,
+        method_name: node.method_name,
+        class_name: node.defined_class,
+        total_time: 0,
+        self_time: 0,
+        library_time: 0,
+        call_count: 0,
+        average_time: 0,
+        max_time: 0,
+        min_time: Infinity,
+        node_ids: [],
+        distribution: { p50: 0, p90: 0, p99: 0, histogram: [], outliers: [] }
+      };
+      methodCalls[key] = [];
+    }
+
+    const stats = methodStats[key];
+    summedDurations[key] = (summedDurations[key] || 0) + node.duration;
+    if (!isNested) stats.total_time += node.duration;
+    stats.self_time += getSelfTime(node);
+    stats.library_time += node.libraryTime || 0;
+    stats.call_count += 1;
+    stats.max_time = Math.max(stats.max_time, node.duration);
+    stats.min_time = Math.min(stats.min_time, node.duration);
+    stats.node_ids.push(node.id);
+    methodCalls[key].push(node);
+  }
+
+  collectNodes(data);
+
+  // Calculate averages and distributions
+  Object.entries(methodStats).forEach(([key, stats]) => {
+    stats.average_time = summedDurations[key] / stats.call_count;
+    if (stats.min_time === Infinity) stats.min_time = 0;
+    stats.distribution = analyzeDistribution(methodCalls[key]);
+  });
+
+  const outliers = Object.values(methodStats)
+    .flatMap(stats => stats.distribution.outliers.map(outlier => ({ ...outlier, stats })))
+    .sort((a, b) => b.zScore - a.zScore);
+
+  const slowCalls = allNodes
+    .filter(n => n.duration && n.duration > 0)
+    .sort((a, b) => (b.duration || 0) - (a.duration || 0))
+    .slice(0, 15);
+
+  // Wall-clock time comes from root calls only; their children run inside them
+  const totalTime = data.reduce((sum, n) => sum + (n.duration || 0), 0);
+  const totalSelfTime = allNodes.reduce((sum, n) => sum + getSelfTime(n), 0);
+  const timedCalls = allNodes.filter(n => n.duration && n.duration > 0);
+  const averageCallTime = timedCalls.length > 0
+    ? timedCalls.reduce((sum, n) => sum + (n.duration || 0), 0) / timedCalls.length
+    : 0;
+
+  return {
+    methods: Object.values(methodStats),
+    slowCalls,
+    outliers,
+    totalTime,
+    totalSelfTime,
+    averageCallTime,
+    totalCalls: allNodes.length
+  };
+}
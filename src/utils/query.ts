@@ -0,0 +1,421 @@
+import { TreeNodeDisplay } from '../types';
+import { getSelfTime } from './treeTransform';
+
+// Query syntax, whitespace separated terms that must all match:
+//   word                 substring of method or class name
+//   class:User           substring (or /regex/) on a string field
+//   duration>5ms         comparison on a numeric field (units: s, ms, us, μs; default ms)
+//   param.id=42          exact parameter value, param:id checks the parameter exists
+//   returns:nil          return value
+//   -class:Foo           negation
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+  field: string;
+  operator: QueryOperator;
+  value: string | number | RegExp;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: QueryError[];
+}
+
+type FieldKind = 'string' | 'number' | 'duration' | 'value';
+
+interface FieldDefinition {
+  kind: FieldKind;
+  description: string;
+}
+
+export const QUERY_FIELDS: Record<string, FieldDefinition> = {
+  class: { kind: 'string', description: 'Defining class' },
+  method: { kind: 'string', description: 'Method name' },
+  path: { kind: 'string', description: 'Source file path' },
+  status: { kind: 'string', description: 'unterminated or unmatched' },
+  duration: { kind: 'duration', description: 'Total call time' },
+  self: { kind: 'duration', description: 'Self (exclusive) time' },
+  depth: { kind: 'number', description: 'Call depth' },
+  line: { kind: 'number', description: 'Line number' },
+  returns: { kind: 'value', description: 'Return value' },
+  param: { kind: 'value', description: 'param:name, or param.name=value' },
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  ms: 1e-3,
+  us: 1e-6,
+  'μs': 1e-6,
+};
+
+const TOKEN_PATTERN = /^(-?)([A-Za-z_][\w.]*)(>=|<=|!=|:|=|>|<)([\s\S]*)$/;
+
+interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+  unterminated: string | null;
+}
+
+// Splits on whitespace, keeping "quoted strings" and /regexes/ intact
+function tokenize(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    while (i < input.length && /\s/.test(input[i])) i++;
+    if (i >= input.length) break;
+
+    const start = i;
+    let unterminated: string | null = null;
+
+    while (i < input.length && !/\s/.test(input[i])) {
+      const ch = input[i];
+      const prev = input[i - 1];
+      const opensRegex = ch === '/' && (i === start || /[:=<>!]/.test(prev));
+
+      if (ch === '"' || opensRegex) {
+        const close = ch;
+        i++;
+        while (i < input.length && input[i] !== close) {
+          if (input[i] === '\\') i++;
+          i++;
+        }
+        if (i >= input.length) {
+          unterminated = close === '"' ? 'quoted string' : 'regular expression';
+          break;
+        }
+      }
+      i++;
+    }
+
+    tokens.push({ text: input.slice(start, i), start, end: i, unterminated });
+  }
+
+  return tokens;
+}
+
+function parseRegex(text: string): RegExp | string {
+  const lastSlash = text.lastIndexOf('/');
+  const source = text.slice(1, lastSlash);
+  const flags = text.slice(lastSlash + 1);
+  try {
+    return new RegExp(source, flags || 'i');
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+function unquote(text: string): string {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  return text;
+}
+
+function parseDuration(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)\s*(s|ms|us|μs)?$/.exec(text);
+  if (!match) return null;
+  return parseFloat(match[1]) * DURATION_UNITS[match[2] || 'ms'];
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+
+  for (const token of tokenize(input)) {
+    const { start, end } = token;
+    if (token.unterminated) {
+      errors.push({ message: `Unterminated ${token.unterminated}`, start, end });
+      continue;
+    }
+
+    const match = TOKEN_PATTERN.exec(token.text);
+    // Ruby namespaces (Foo::Bar) look like field:value but are plain search text
+    if (!match || (!QUERY_FIELDS[match[2]] && !match[2].startsWith('param.') && token.text.includes('::'))) {
+      const negated = token.text.startsWith('-') && token.text.length > 1;
+      const text = negated ? token.text.slice(1) : token.text;
+
+      if (text.startsWith('/') && text.length > 1) {
+        const regex = parseRegex(text);
+        if (typeof regex === 'string') {
+          errors.push({ message: regex, start, end });
+        } else {
+          terms.push({ field: 'text', operator: ':', value: regex, negated, start, end });
+        }
+        continue;
+      }
+
+      terms.push({ field: 'text', operator: ':', value: unquote(text).toLowerCase(), negated, start, end });
+      continue;
+    }
+
+    const [, minus, field, operator, rawValue] = match as unknown as [string, string, string, QueryOperator, string];
+    const negated = minus === '-';
+    const baseField = field.startsWith('param.') ? 'param' : field;
+    const definition = QUERY_FIELDS[baseField];
+
+    if (!definition) {
+      errors.push({ message: `Unknown field "${field}"`, start, end });
+      continue;
+    }
+    if (rawValue === '') {
+      errors.push({ message: `Missing value for ${field}`, start, end });
+      continue;
+    }
+
+    const isComparison = operator !== ':' && operator !== '=' && operator !== '!=';
+
+    if (definition.kind === 'number' || definition.kind === 'duration') {
+      const value = definition.kind === 'duration' ? parseDuration(rawValue) : Number(rawValue);
+      if (value === null || Number.isNaN(value)) {
+        const expected = definition.kind === 'duration' ? 'a duration like 5ms' : 'a number';
+        errors.push({ message: `${field}: expected ${expected}`, start, end });
+        continue;
+      }
+      terms.push({ field, operator: operator === ':' ? '=' : operator, value, negated, start, end });
+      continue;
+    }
+
+    if (isComparison) {
+      errors.push({ message: `${field} does not support "${operator}"`, start, end });
+      continue;
+    }
+    if (field === 'param' && operator !== ':') {
+      errors.push({ message: 'Use param.<name>=value to compare a parameter value', start, end });
+      continue;
+    }
+
+    if (rawValue.startsWith('/')) {
+      const regex = parseRegex(rawValue);
+      if (typeof regex === 'string') {
+        errors.push({ message: `${field}: ${regex}`, start, end });
+        continue;
+      }
+      terms.push({ field, operator, value: regex, negated, start, end });
+      continue;
+    }
+
+    terms.push({ field, operator, value: unquote(rawValue), negated, start, end });
+  }
+
+  return { terms, errors };
+}
+
+function compareNumbers(actual: number | null, operator: QueryOperator, expected: number): boolean {
+  if (actual === null) return false;
+  switch (operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '!=': return actual !== expected;
+    default: return actual === expected;
+  }
+}
+
+function matchesString(actual: string | null, operator: QueryOperator, expected: string | RegExp): boolean {
+  if (actual === null) return false;
+  if (expected instanceof RegExp) return expected.test(actual);
+  if (operator === '=') return actual === expected;
+  if (operator === '!=') return actual !== expected;
+  return actual.toLowerCase().includes(expected.toLowerCase());
+}
+
+function valueText(value: unknown): string {
+  if (value === null || value === undefined) return 'nil';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+// Exact comparison of a traced value against a literal typed in a query
+function valueEquals(actual: unknown, expected: string): boolean {
+  if (expected === 'nil' || expected === 'null') return actual === null || actual === undefined;
+  if (expected === 'true' || expected === 'false') return actual === (expected === 'true');
+  if (typeof actual === 'number') return actual === Number(expected);
+  return valueText(actual) === expected;
+}
+
+function matchesValue(actual: unknown, operator: QueryOperator, expected: string | number | RegExp): boolean {
+  if (expected instanceof RegExp) return expected.test(valueText(actual));
+  const text = String(expected);
+  if (operator === '=') return valueEquals(actual, text);
+  if (operator === '!=') return !valueEquals(actual, text);
+  if (text === 'nil') return actual === null || actual === undefined;
+  return valueText(actual).toLowerCase().includes(text.toLowerCase());
+}
+
+function matchesTerm(node: TreeNodeDisplay, term: QueryTerm): boolean {
+  const { field, operator, value } = term;
+
+  switch (field) {
+    case 'text':
+      return matchesString(node.method_name, operator, value as string | RegExp) ||
+        matchesString(node.defined_class, operator, value as string | RegExp);
+    case 'class':
+      return matchesString(node.defined_class, operator, value as string | RegExp);
+    case 'method':
+      return matchesString(node.method_name, operator, value as string | RegExp);
+    case 'path':
+      return matchesString(node.path, operator, value as string | RegExp);
+    case 'status':
+      return matchesString(node.status ?? null, operator, value as string | RegExp);
+    case 'duration':
+      return compareNumbers(node.duration, operator, value as number);
+    case 'self':
+      return compareNumbers(node.duration === null ? null : getSelfTime(node), operator, value as number);
+    case 'depth':
+      return compareNumbers(node.depth, operator, value as number);
+    case 'line':
+      return compareNumbers(node.lineno, operator, value as number);
+    case 'returns':
+      return matchesValue(node.return_value, operator, value);
+    case 'param':
+      // param:name (or param:/regex/) checks that a parameter with that name exists
+      return !!node.parameters?.some(param => matchesString(param.name, operator, value as string | RegExp));
+    default: {
+      const name = field.slice('param.'.length);
+      const param = node.parameters?.find(p => p.name === name);
+      return !!param && matchesValue(param.value, operator, value);
+    }
+  }
+}
+
+export function matchesQuery(node: TreeNodeDisplay, query: ParsedQuery): boolean {
+  return query.terms.every(term => matchesTerm(node, term) !== term.negated);
+}
+
+// Character ranges of `text` (a method or class name) that the query matched, for highlighting
+export function getHighlightRanges(text: string, field: 'method' | 'class', query: ParsedQuery): [number, number][] {
+  const ranges: [number, number][] = [];
+  const lower = text.toLowerCase();
+
+  for (const term of query.terms) {
+    if (term.negated || term.operator !== ':' && term.operator !== '=') continue;
+    if (term.field !== 'text' && term.field !== field) continue;
+
+    if (term.value instanceof RegExp) {
+      const match = new RegExp(term.value.source, term.value.flags.replace('g', '')).exec(text);
+      if (match && match[0].length > 0) ranges.push([match.index, match.index + match[0].length]);
+    } else if (typeof term.value === 'string' && term.value.length > 0) {
+      const index = lower.indexOf(term.value.toLowerCase());
+      if (index >= 0) ranges.push([index, index + term.value.length]);
+    }
+  }
+
+  // Merge overlapping ranges
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+export interface QueryCompletion {
+  label: string;
+  detail: string;
+  // Replacement for the token under the cursor
+  insertText: string;
+  replaceStart: number;
+  replaceEnd: number;
+}
+
+export interface CompletionSource {
+  classes: string[];
+  methods: string[];
+  parameters: string[];
+}
+
+const MAX_COMPLETIONS = 12;
+
+export function getCompletions(input: string, cursor: number, source: CompletionSource): QueryCompletion[] {
+  let start = cursor;
+  while (start > 0 && !/\s/.test(input[start - 1])) start--;
+  let end = cursor;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+
+  const token = input.slice(start, cursor);
+  const prefixLength = token.startsWith('-') ? 1 : 0;
+  const body = token.slice(prefixLength);
+  const tokenStart = start + prefixLength;
+
+  const fieldMatch = /^([A-Za-z_][\w.]*)(>=|<=|!=|:|=|>|<)(.*)$/.exec(body);
+
+  if (!fieldMatch) {
+    if (body.length === 0) return [];
+    const lower = body.toLowerCase();
+    const fields = Object.entries(QUERY_FIELDS)
+      .filter(([name]) => name.startsWith(lower) && name !== lower)
+      .map(([name, definition]) => ({
+        label: `${name}:`,
+        detail: definition.description,
+        insertText: definition.kind === 'number' || definition.kind === 'duration' ? `${name}>` : `${name}:`,
+        replaceStart: tokenStart,
+        replaceEnd: end,
+      }));
+    const params = source.parameters
+      .filter(name => `param.${name}`.startsWith(lower) && lower.startsWith('param.'))
+      .map(name => ({
+        label: `param.${name}=`,
+        detail: 'Parameter value',
+        insertText: `param.${name}=`,
+        replaceStart: tokenStart,
+        replaceEnd: end,
+      }));
+    return [...fields, ...params].slice(0, MAX_COMPLETIONS);
+  }
+
+  const [, field, operator, value] = fieldMatch;
+  const valueStart = tokenStart + field.length + operator.length;
+  const lowerValue = value.toLowerCase();
+
+  let candidates: string[] = [];
+  let detail = '';
+  if (field === 'class') {
+    candidates = source.classes;
+    detail = 'Class';
+  } else if (field === 'method') {
+    candidates = source.methods;
+    detail = 'Method';
+  } else if (field === 'param' && operator === ':') {
+    candidates = source.parameters;
+    detail = 'Parameter';
+  } else if (field === 'status') {
+    candidates = ['unterminated', 'unmatched'];
+    detail = 'Status';
+  } else if (field === 'returns' || field.startsWith('param.')) {
+    candidates = ['nil', 'true', 'false'];
+    detail = 'Value';
+  }
+
+  return candidates
+    .filter(candidate => candidate.toLowerCase().startsWith(lowerValue) && candidate !== value)
+    .slice(0, MAX_COMPLETIONS)
+    .map(candidate => ({
+      label: candidate,
+      detail,
+      insertText: /\s/.test(candidate) ? JSON.stringify(candidate) : candidate,
+      replaceStart: valueStart,
+      replaceEnd: end,
+    }));
+}
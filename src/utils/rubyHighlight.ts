@@ -0,0 +1,67 @@
+export type RubyTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'symbol' | 'constant' | 'variable' | 'text';
+
+export interface RubyToken {
+  type: RubyTokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'defined?', 'do', 'else', 'elsif', 'end',
+  'ensure', 'false', 'for', 'if', 'in', 'module', 'next', 'nil', 'not', 'or', 'redo', 'rescue', 'retry',
+  'return', 'self', 'super', 'then', 'true', 'undef', 'unless', 'until', 'when', 'while', 'yield',
+  'attr_reader', 'attr_writer', 'attr_accessor', 'private', 'protected', 'public', 'require',
+  'require_relative', 'include', 'extend', 'prepend', 'raise',
+]);
+
+// Tried in order at each position; the first match wins
+const RULES: Array<[RubyTokenType | 'word', RegExp]> = [
+  ['comment', /#.*/y],
+  // Scope resolution, so `Foo::Bar` isn't read as a symbol
+  ['text', /::/y],
+  ['string', /"(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?/y],
+  ['string', /%[qQwWiI]?([([{<|!/])(?:\\.|(?!\1).)*?(?:[)\]}>|!/]|$)/y],
+  ['symbol', /:(?:[A-Za-z_]\w*[?!=]?|"(?:[^"\\]|\\.)*")/y],
+  ['symbol', /[A-Za-z_]\w*:(?!:)/y],
+  ['variable', /@@?[A-Za-z_]\w*|\$[A-Za-z_]\w*/y],
+  ['number', /\d[\d_]*(?:\.\d[\d_]*)?(?:e[+-]?\d+)?/y],
+  ['constant', /[A-Z]\w*/y],
+  ['word', /[a-z_]\w*[?!]?/y],
+];
+
+// Line by line, so multi-line strings and heredocs only get their first line colored.
+// Good enough for a preview of a few dozen lines.
+export function highlightRubyLine(line: string): RubyToken[] {
+  const tokens: RubyToken[] = [];
+  let pos = 0;
+  let plainStart = 0;
+
+  const flushPlain = () => {
+    if (pos > plainStart) tokens.push({ type: 'text', text: line.slice(plainStart, pos) });
+  };
+
+  while (pos < line.length) {
+    let matched = false;
+    for (const [type, pattern] of RULES) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(line);
+      if (!match || match[0].length === 0) continue;
+
+      // `a:b` style symbols are hash keys only at the start of a word
+      if (type === 'symbol' && match[0].endsWith(':') && pos > 0 && /\w/.test(line[pos - 1])) continue;
+
+      flushPlain();
+      const text = match[0];
+      const tokenType = type === 'word' ? (KEYWORDS.has(text) ? 'keyword' : 'text') : type;
+      tokens.push({ type: tokenType, text });
+      pos += text.length;
+      plainStart = pos;
+      matched = true;
+      break;
+    }
+
+    if (!matched) pos++;
+  }
+
+  flushPlain();
+  return tokens;
+}
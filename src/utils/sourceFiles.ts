@@ -0,0 +1,155 @@
+import { SourceBundle } from '../types';
+
+// A local project directory the user gave us access to
+export interface SourceRoot {
+  name: string;
+  // Resolves to null when the file doesn't exist under this root
+  readFile(relativePath: string): Promise<string | null>;
+}
+
+export interface SourceWindow {
+  // 1-based number of the first line in `lines`
+  startLine: number;
+  lines: string[];
+  // Last line of the method starting at the requested line, when it could be found
+  methodEndLine: number | null;
+}
+
+const CONTEXT_LINES = 3;
+const FALLBACK_CONTEXT_LINES = 8;
+const MAX_METHOD_LINES = 80;
+
+type DirectoryPickerWindow = Window & { showDirectoryPicker?: () => Promise<FileSystemDirectoryHandle> };
+
+export function isDirectoryPickerSupported(): boolean {
+  return typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+// Resolves to null when the user cancels the picker
+export async function pickSourceDirectory(): Promise<SourceRoot | null> {
+  let handle: FileSystemDirectoryHandle;
+  try {
+    handle = await (window as DirectoryPickerWindow).showDirectoryPicker!();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+
+  return {
+    name: handle.name,
+    async readFile(relativePath) {
+      const segments = relativePath.split('/');
+      try {
+        let dir = handle;
+        for (const segment of segments.slice(0, -1)) {
+          dir = await dir.getDirectoryHandle(segment);
+        }
+        const file = await (await dir.getFileHandle(segments[segments.length - 1])).getFile();
+        return await file.text();
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// A folder dropped onto the page, read through the older entries API
+export function sourceRootFromDrop(items: DataTransferItemList): SourceRoot | null {
+  const entry = [...items].map(item => item.webkitGetAsEntry()).find(candidate => candidate?.isDirectory);
+  if (!entry) return null;
+  const dir = entry as FileSystemDirectoryEntry;
+
+  return {
+    name: dir.name,
+    readFile: relativePath => new Promise(resolve => {
+      dir.getFile(
+        relativePath,
+        {},
+        fileEntry => (fileEntry as FileSystemFileEntry).file(file => file.text().then(resolve, () => resolve(null)), () => resolve(null)),
+        () => resolve(null)
+      );
+    }),
+  };
+}
+
+// Files from an <input webkitdirectory>, for browsers without the directory picker
+export function sourceRootFromFiles(files: FileList): SourceRoot | null {
+  if (files.length === 0) return null;
+  const byPath = new Map<string, File>();
+  [...files].forEach(file => {
+    // webkitRelativePath starts with the chosen folder's name
+    byPath.set(file.webkitRelativePath.split('/').slice(1).join('/'), file);
+  });
+
+  return {
+    name: files[0].webkitRelativePath.split('/')[0],
+    readFile: async relativePath => {
+      const file = byPath.get(relativePath);
+      return file ? file.text() : null;
+    },
+  };
+}
+
+// Traces usually hold absolute paths from the machine that recorded them. Candidates
+// are the part after the root folder's name, then ever shorter suffixes of the path
+// (down to a bare file name only if that's all the trace recorded).
+export function getCandidatePaths(path: string, rootName: string): string[] {
+  const segments = path.split('/').filter(segment => segment && segment !== '.');
+  const candidates: string[] = [];
+
+  const rootIndex = segments.lastIndexOf(rootName);
+  if (rootIndex >= 0 && rootIndex < segments.length - 1) {
+    candidates.push(segments.slice(rootIndex + 1).join('/'));
+  }
+  for (let i = 0; i < Math.max(1, segments.length - 1); i++) {
+    const candidate = segments.slice(i).join('/');
+    if (!candidates.includes(candidate)) candidates.push(candidate);
+  }
+
+  return candidates;
+}
+
+function findInBundle(bundle: SourceBundle, path: string): string | null {
+  // Own keys only: `in` would also find inherited ones such as "constructor"
+  if (Object.prototype.hasOwnProperty.call(bundle, path)) return bundle[path];
+  // Bundles may key files relative to the project while events use absolute paths, or the other way round
+  const key = Object.keys(bundle).find(candidate => path.endsWith(`/${candidate}`) || candidate.endsWith(`/${path}`));
+  return key !== undefined ? bundle[key] : null;
+}
+
+// Looks in the trace's embedded sources first, then in the picked directory
+export async function readSourceFile(path: string, bundle: SourceBundle | null, root: SourceRoot | null): Promise<string | null> {
+  const bundled = bundle ? findInBundle(bundle, path) : null;
+  if (bundled !== null) return bundled;
+  if (!root) return null;
+
+  for (const candidate of getCandidatePaths(path, root.name)) {
+    const contents = await root.readFile(candidate);
+    if (contents !== null) return contents;
+  }
+  return null;
+}
+
+// The method body when `line` starts a `def` (up to the `end` at the same indentation),
+// otherwise a few lines either side
+export function getSourceWindow(text: string, line: number): SourceWindow {
+  const allLines = text.split(/\r?\n/);
+  const index = Math.min(Math.max(line - 1, 0), allLines.length - 1);
+  let methodEndLine: number | null = null;
+
+  const definition = /^(\s*)(?:[\w.]+\s+)?def\b/.exec(allLines[index]);
+  if (definition && !/\bend\s*$/.test(allLines[index]) && !/\)\s*=/.test(allLines[index])) {
+    const indent = definition[1];
+    for (let i = index + 1; i < Math.min(allLines.length, index + MAX_METHOD_LINES); i++) {
+      if (allLines[i].startsWith(`${indent}end`) && /^\s*end\b/.test(allLines[i])) {
+        methodEndLine = i + 1;
+        break;
+      }
+    }
+  }
+
+  const context = methodEndLine ? CONTEXT_LINES : FALLBACK_CONTEXT_LINES;
+  const first = Math.max(0, index - context);
+  const last = Math.min(allLines.length - 1, (methodEndLine ? methodEndLine - 1 : index) + context);
+  return { startLine: first + 1, lines: allLines.slice(first, last + 1), methodEndLine };
+}
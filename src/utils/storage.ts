@@ -0,0 +1,29 @@
+// localStorage that never throws. Storage can be unavailable (e.g. disabled cookies) or full;
+// readers then fall back to their defaults, and whatever was saved only lasts until reload.
+export const safeLocalStorage = {
+  get(key: string): string | null {
+    try {
+      return localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  },
+
+  // False when the value couldn't be stored
+  set(key: string, value: string): boolean {
+    try {
+      localStorage.setItem(key, value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  remove(key: string) {
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Nothing was stored then
+    }
+  },
+};
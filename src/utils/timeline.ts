@@ -0,0 +1,59 @@
+import { TimeRange, TreeNodeDisplay } from '../types';
+
+export function getTimeBounds(nodes: TreeNodeDisplay[]): TimeRange | null {
+  let start = Infinity;
+  let end = -Infinity;
+
+  const pending = [...nodes];
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    if (node.start_time !== null) {
+      start = Math.min(start, node.start_time);
+      end = Math.max(end, node.end_time ?? node.start_time);
+    }
+    for (const child of node.children) pending.push(child);
+  }
+
+  return start <= end ? { start, end } : null;
+}
+
+export function overlapsRange(node: TreeNodeDisplay, range: TimeRange): boolean {
+  if (node.start_time === null) return false;
+  // Unterminated calls have no end time; treat them as still running
+  if (node.end_time === null) return node.start_time <= range.end;
+  return node.start_time <= range.end && node.end_time >= range.start;
+}
+
+// Intervals inside a call that no traced child covers, i.e. where its self time went
+export function selfTimeGaps(node: TreeNodeDisplay): TimeRange[] {
+  if (node.start_time === null || node.end_time === null) return [];
+
+  const children = node.children
+    .filter(child => child.start_time !== null)
+    .sort((a, b) => a.start_time! - b.start_time!);
+
+  const gaps: TimeRange[] = [];
+  let cursor = node.start_time;
+  for (const child of children) {
+    if (child.start_time! > cursor) {
+      gaps.push({ start: cursor, end: child.start_time! });
+    }
+    cursor = Math.max(cursor, child.end_time ?? child.start_time!);
+  }
+  if (cursor < node.end_time) {
+    gaps.push({ start: cursor, end: node.end_time });
+  }
+
+  return gaps;
+}
+
+// Picks a 1/2/5 × 10^n step so that roughly `targetTicks` ticks fit in `span`
+export function niceTickStep(span: number, targetTicks: number): number {
+  const rough = span / Math.max(targetTicks, 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  if (normalized < 1.5) return magnitude;
+  if (normalized < 3.5) return 2 * magnitude;
+  if (normalized < 7.5) return 5 * magnitude;
+  return 10 * magnitude;
+}
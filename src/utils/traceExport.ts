@@ -0,0 +1,220 @@
+import { TPTreeData, TreeNodeData, TreeNodeDisplay } from '../types';
+import { formatDuration, formatParameters, formatValue } from './treeTransform';
+import { getMethodKey, MethodStats } from './performanceStats';
+import { CURRENT_FORMAT_VERSION } from './traceFormat';
+
+// A line of the Call Tree as shown: a call, or a folded run of calls hidden by the search filter
+export type ExportRow =
+  | { kind: 'node'; node: TreeNodeDisplay }
+  | { kind: 'hidden'; depth: number; count: number };
+
+function getRowDepth(row: ExportRow) {
+  return row.kind === 'node' ? row.node.depth : row.depth;
+}
+
+function describeCall(node: TreeNodeDisplay): string {
+  const name = node.defined_class ? `${node.defined_class}#${node.method_name}` : node.method_name;
+  const returned = node.return_value !== null && node.return_value !== undefined ? ` → ${formatValue(node.return_value)}` : '';
+  return `${name}(${formatParameters(node.parameters)})${returned}`;
+}
+
+function describeHidden(count: number) {
+  return `${count.toLocaleString()} hidden ${count === 1 ? 'call' : 'calls'}`;
+}
+
+// Rows are indented relative to the shallowest one, so exporting a deep subtree doesn't start mid-page
+export function formatTreeText(rows: ExportRow[]): string {
+  const baseDepth = rows.reduce((min, row) => Math.min(min, getRowDepth(row)), Infinity);
+  return rows.map(row => {
+    const indent = '  '.repeat(getRowDepth(row) - baseDepth);
+    if (row.kind === 'hidden') return `${indent}… ${describeHidden(row.count)}`;
+    const duration = formatDuration(row.node.duration);
+    return `${indent}${describeCall(row.node)}${duration ? `  [${duration}]` : ''}`;
+  }).join('\n') + '\n';
+}
+
+export function formatTreeMarkdown(rows: ExportRow[]): string {
+  const baseDepth = rows.reduce((min, row) => Math.min(min, getRowDepth(row)), Infinity);
+  return rows.map(row => {
+    const indent = '  '.repeat(getRowDepth(row) - baseDepth);
+    if (row.kind === 'hidden') return `${indent}- _${describeHidden(row.count)}_`;
+    const duration = formatDuration(row.node.duration);
+    // Backticks in values would end the code span early
+    return `${indent}- \`${describeCall(row.node).replace(/`/g, "'")}\`${duration ? ` **${duration}**` : ''}`;
+  }).join('\n') + '\n';
+}
+
+function escapeCsv(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Times are in seconds, like the trace format
+export function methodStatsToCsv(methods: MethodStats[]): string {
+  const header = ['class', 'method', 'calls', 'total_time', 'self_time', 'average_time', 'min_time', 'max_time'];
+  const lines = methods.map(stats => [
+    stats.class_name,
+    stats.method_name,
+    stats.call_count,
+    stats.total_time,
+    stats.self_time,
+    stats.average_time,
+    stats.min_time,
+    stats.max_time,
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+function toEvent(node: TreeNodeDisplay, event: TreeNodeData['event'], depth: number): TreeNodeData {
+  return {
+    event,
+    method_name: node.method_name,
+    parameters: event === 'return' ? null : node.parameters,
+    return_value: event === 'call' ? null : node.return_value,
+    depth,
+    defined_class: node.defined_class,
+    path: node.path,
+    lineno: node.lineno,
+    start_time: node.start_time,
+    end_time: node.end_time,
+    duration: node.duration,
+  };
+}
+
+// Re-serializes a subtree as a standalone trace, with depths rebased so `root` is at depth 0.
+// Calls with children become call/return pairs again; unterminated calls keep no return.
+export function subtreeToTraceData(root: TreeNodeDisplay): TPTreeData {
+  const events: TreeNodeData[] = [];
+
+  function visit(node: TreeNodeDisplay) {
+    const depth = node.depth - root.depth;
+    if (node.status === 'unmatched') {
+      events.push(toEvent(node, 'return', depth));
+    } else if (node.children.length === 0 && node.status !== 'unterminated') {
+      events.push(toEvent(node, 'call_return', depth));
+    } else {
+      events.push(toEvent(node, 'call', depth));
+      node.children.forEach(visit);
+      if (node.status !== 'unterminated') events.push(toEvent(node, 'return', depth));
+    }
+  }
+
+  visit(root);
+  return { version: CURRENT_FORMAT_VERSION, timestamp: new Date().toISOString(), events };
+}
+
+interface TimedNode {
+  node: TreeNodeDisplay;
+  start: number;
+  end: number;
+  children: TimedNode[];
+}
+
+// Other tools need properly nested, ordered intervals; calls with missing or
+// overlapping times are clamped into their parent and after their previous sibling
+function layoutIntervals(data: TreeNodeDisplay[]): TimedNode[] {
+  let origin = Infinity;
+  const pending = [...data];
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    if (node.start_time !== null) origin = Math.min(origin, node.start_time);
+    for (const child of node.children) pending.push(child);
+  }
+  if (origin === Infinity) origin = 0;
+
+  let cursor = 0;
+  function layout(node: TreeNodeDisplay): TimedNode {
+    const start = Math.max(cursor, node.start_time !== null ? node.start_time - origin : cursor);
+    cursor = start;
+    const children = node.children.map(layout);
+    const ownEnd = node.end_time !== null ? node.end_time - origin : start + (node.duration ?? 0);
+    const end = Math.max(cursor, ownEnd);
+    cursor = end;
+    return { node, start, end, children };
+  }
+
+  return data.map(layout);
+}
+
+function frameName(node: TreeNodeDisplay) {
+  return node.defined_class ? `${node.defined_class}#${node.method_name}` : node.method_name;
+}
+
+// https://www.speedscope.app/file-format-schema.json
+export function toSpeedscope(data: TreeNodeDisplay[], name: string): object {
+  const roots = layoutIntervals(data);
+  const frames: Array<{ name: string; file?: string; line?: number }> = [];
+  const frameIndex = new Map<string, number>();
+  const events: Array<{ type: 'O' | 'C'; frame: number; at: number }> = [];
+  let endValue = 0;
+
+  function getFrame(node: TreeNodeDisplay) {
+    const key = `${getMethodKey(node)}@${node.path}:${node.lineno}`;
+    let index = frameIndex.get(key);
+    if (index === undefined) {
+      index = frames.length;
+      frames.push({ name: frameName(node), file: node.path ?? undefined, line: node.lineno ?? undefined });
+      frameIndex.set(key, index);
+    }
+    return index;
+  }
+
+  function visit(timed: TimedNode) {
+    const frame = getFrame(timed.node);
+    events.push({ type: 'O', frame, at: timed.start });
+    timed.children.forEach(visit);
+    events.push({ type: 'C', frame, at: timed.end });
+    endValue = Math.max(endValue, timed.end);
+  }
+  roots.forEach(visit);
+
+  return {
+    $schema: 'https://www.speedscope.app/file-format-schema.json',
+    name,
+    exporter: 'tp-tree-viewer',
+    shared: { frames },
+    profiles: [{ type: 'evented', name, unit: 'seconds', startValue: 0, endValue, events }],
+  };
+}
+
+// Chrome Trace Event "complete" events, loadable in Perfetto and chrome://tracing
+export function toChromeTrace(data: TreeNodeDisplay[]): object {
+  const roots = layoutIntervals(data);
+  const traceEvents: object[] = [];
+
+  function visit(timed: TimedNode) {
+    const { node } = timed;
+    const args: Record<string, unknown> = {};
+    node.parameters?.forEach(param => {
+      args[param.name || param.type] = param.value;
+    });
+    if (node.return_value !== null && node.return_value !== undefined) args.return_value = node.return_value;
+    if (node.path) args.location = node.lineno ? `${node.path}:${node.lineno}` : node.path;
+
+    traceEvents.push({
+      name: frameName(node),
+      cat: node.defined_class ?? 'ruby',
+      ph: 'X',
+      ts: timed.start * 1e6,
+      dur: (timed.end - timed.start) * 1e6,
+      pid: 1,
+      tid: 1,
+      args,
+    });
+    timed.children.forEach(visit);
+  }
+  roots.forEach(visit);
+
+  return { traceEvents, displayTimeUnit: 'ms' };
+}
+
+// Saves generated content through a temporary download link
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,95 @@
+// Versioning for the trace JSON written by the tp_tree gem.
+//
+// Versions follow semver: traces with the current major version are read as-is
+// (newer minor versions only add fields, which are ignored), older majors are
+// upgraded event by event through MIGRATIONS, and newer majors are rejected
+// because the viewer can't know what changed.
+
+export const CURRENT_FORMAT_VERSION = '1.0.0';
+
+// Every format version the gem has shipped, oldest first
+export const KNOWN_FORMAT_VERSIONS = ['0.1.0', '1.0.0'];
+
+type RawEvent = Record<string, unknown>;
+
+interface Migration {
+  // Upgrades events from this major version to the next one
+  fromMajor: number;
+  migrateEvent: (event: RawEvent) => RawEvent;
+}
+
+const NULLABLE_FIELDS = ['parameters', 'return_value', 'defined_class', 'path', 'lineno', 'start_time', 'end_time', 'duration'];
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 0.x has the same event shape, but the format wasn't pinned down yet:
+    // nullable fields may be left out instead of written as null
+    fromMajor: 0,
+    migrateEvent: event => {
+      const migrated = { ...event };
+      for (const field of NULLABLE_FIELDS) {
+        if (migrated[field] === undefined) migrated[field] = null;
+      }
+      return migrated;
+    },
+  },
+];
+
+export interface TraceFormat {
+  // Version declared by the trace, null for unversioned traces (e.g. bare event arrays)
+  declaredVersion: string | null;
+  migrated: boolean;
+  migrateEvent: (event: unknown) => unknown;
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(readonly version: string, reason: string) {
+    super(`Unsupported trace format version "${version}": ${reason}`);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+function parseMajor(version: string): number | null {
+  const match = /^(\d+)(?:\.\d+){0,2}(?:[-+].*)?$/.exec(version.trim());
+  return match ? Number(match[1]) : null;
+}
+
+// Works out how to read events of a trace declaring `version`.
+// Throws UnsupportedFormatError for malformed or newer-than-supported versions.
+export function resolveTraceFormat(version: string | null): TraceFormat {
+  const identity = (event: unknown) => event;
+  if (version === null) {
+    return { declaredVersion: null, migrated: false, migrateEvent: identity };
+  }
+
+  const major = parseMajor(version);
+  const currentMajor = parseMajor(CURRENT_FORMAT_VERSION)!;
+  if (major === null) {
+    throw new UnsupportedFormatError(version, 'expected a version like "1.0.0"');
+  }
+  if (major > currentMajor) {
+    throw new UnsupportedFormatError(
+      version,
+      `this viewer reads formats up to ${CURRENT_FORMAT_VERSION}. Update the viewer to open traces from a newer tp_tree gem.`
+    );
+  }
+  if (major === currentMajor) {
+    return { declaredVersion: version, migrated: false, migrateEvent: identity };
+  }
+
+  const steps = MIGRATIONS.filter(migration => migration.fromMajor >= major && migration.fromMajor < currentMajor)
+    .sort((a, b) => a.fromMajor - b.fromMajor);
+  if (steps.length !== currentMajor - major) {
+    throw new UnsupportedFormatError(version, `no migration to ${CURRENT_FORMAT_VERSION} is available`);
+  }
+
+  return {
+    declaredVersion: version,
+    migrated: true,
+    migrateEvent: event => {
+      // Leave non-objects alone so validation can report them with their path
+      if (typeof event !== 'object' || event === null || Array.isArray(event)) return event;
+      return steps.reduce((current, step) => step.migrateEvent(current), event as RawEvent);
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import { LoadedTrace } from '../types';
+import { formatBytes } from './treeTransform';
+
+// Traces the user has opened, kept in IndexedDB so they survive "Load New Data" and reloads.
+// Entry metadata and the raw trace blobs live in separate stores so listing stays cheap.
+
+export interface TraceLibraryEntry {
+  id: string;
+  name: string;
+  version: string;
+  timestamp: string;
+  eventCount: number;
+  totalTime: number;
+  size: number;
+  tags: string[];
+  addedAt: number;
+  lastOpenedAt: number;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export interface SaveResult {
+  entry: TraceLibraryEntry;
+  // Least recently opened traces removed to make room
+  evicted: TraceLibraryEntry[];
+}
+
+const DB_NAME = 'tp-tree-viewer';
+const DB_VERSION = 1;
+const ENTRIES = 'traces';
+const BLOBS = 'blobs';
+// Leave some of the origin's quota for everything else the browser stores for us
+const QUOTA_HEADROOM = 0.9;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ENTRIES, { keyPath: 'id' });
+        db.createObjectStore(BLOBS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function listTraces(): Promise<TraceLibraryEntry[]> {
+  const db = await openDatabase();
+  const entries = await requestResult(db.transaction(ENTRIES).objectStore(ENTRIES).getAll() as IDBRequest<TraceLibraryEntry[]>);
+  return entries.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+}
+
+async function updateEntry(id: string, update: (entry: TraceLibraryEntry) => TraceLibraryEntry): Promise<TraceLibraryEntry> {
+  const db = await openDatabase();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry = await requestResult(store.get(id) as IDBRequest<TraceLibraryEntry | undefined>);
+  if (!entry) throw new Error(`Trace ${id} is no longer in the library`);
+
+  const next = update(entry);
+  store.put(next);
+  await transactionDone(tx);
+  return next;
+}
+
+export async function deleteTrace(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES, BLOBS], 'readwrite');
+  tx.objectStore(ENTRIES).delete(id);
+  tx.objectStore(BLOBS).delete(id);
+  await transactionDone(tx);
+}
+
+export function renameTrace(id: string, name: string) {
+  return updateEntry(id, entry => ({ ...entry, name }));
+}
+
+export function setTraceTags(id: string, tags: string[]) {
+  return updateEntry(id, entry => ({ ...entry, tags: [...new Set(tags)] }));
+}
+
+// Reads the stored trace and marks it as recently used
+export async function openTrace(id: string): Promise<Blob> {
+  const db = await openDatabase();
+  const blob = await requestResult(db.transaction(BLOBS).objectStore(BLOBS).get(id) as IDBRequest<Blob | undefined>);
+  if (!blob) throw new Error('The stored trace data is missing; it may have been cleared by the browser');
+
+  await updateEntry(id, entry => ({ ...entry, lastOpenedAt: Date.now() }));
+  return blob;
+}
+
+// Stores a freshly loaded trace. Re-loading a file with the same name and size
+// replaces the old entry (keeping its tags) instead of adding a duplicate.
+// When space runs out the least recently opened traces are evicted; if the
+// trace still doesn't fit, the returned promise rejects.
+export async function saveTrace(source: Blob, name: string, trace: LoadedTrace): Promise<SaveResult> {
+  const entries = await listTraces();
+  const existing = entries.find(entry => entry.name === name && entry.size === source.size);
+  const now = Date.now();
+
+  const entry: TraceLibraryEntry = {
+    id: existing?.id ?? createId(),
+    name,
+    version: trace.metadata.version,
+    timestamp: trace.metadata.timestamp,
+    eventCount: trace.eventCount,
+    totalTime: trace.tree.reduce((sum, node) => sum + (node.duration || 0), 0),
+    size: source.size,
+    tags: existing?.tags ?? [],
+    addedAt: existing?.addedAt ?? now,
+    lastOpenedAt: now,
+  };
+
+  // Oldest first, never the entry being replaced
+  const candidates = entries.filter(e => e.id !== entry.id).reverse();
+  const evicted: TraceLibraryEntry[] = [];
+  const evictOldest = async () => {
+    const victim = candidates.shift();
+    if (!victim) return false;
+    await deleteTrace(victim.id);
+    evicted.push(victim);
+    return true;
+  };
+
+  const usage = await getStorageUsage();
+  if (usage) {
+    const available = usage.quota * QUOTA_HEADROOM;
+    if (source.size > available) {
+      throw new Error(`Trace is too large for browser storage (${formatBytes(source.size)}, ${formatBytes(available)} available)`);
+    }
+
+    let needed = usage.usage + source.size - available;
+    while (needed > 0 && candidates.length > 0) {
+      needed -= candidates[0].size;
+      await evictOldest();
+    }
+  }
+
+  const db = await openDatabase();
+  for (;;) {
+    try {
+      const tx = db.transaction([ENTRIES, BLOBS], 'readwrite');
+      tx.objectStore(ENTRIES).put(entry);
+      tx.objectStore(BLOBS).put(source, entry.id);
+      await transactionDone(tx);
+      return { entry, evicted };
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      if (!(await evictOldest())) throw new Error('Not enough browser storage to keep this trace in the library');
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { LoadedTrace, LoadProgress, ValidationIssue } from '../types';
+import type { LoaderRequest, LoaderResponse } from '../workers/traceLoader.worker';
+import { linkParents } from './treeTransform';
+import { formatIssue } from './traceValidation';
+import type { ImportFormat } from '../importers';
+
+export interface TraceLoadTask {
+  promise: Promise<LoadedTrace>;
+  cancel: () => void;
+}
+
+export interface LoadTraceOptions {
+  // Drop events that don't match the trace format instead of rejecting with TraceValidationError
+  skipInvalid?: boolean;
+  // Convert a profile from another tool, as returned by detectImportFormat
+  importFormat?: ImportFormat | null;
+}
+
+// Rejection for traces that don't match the format; `issues` holds the first few of `issueCount`.
+// `invalidCount` is 0 when only the document itself is wrong, e.g. it has no "events" array.
+export class TraceValidationError extends Error {
+  constructor(
+    readonly issues: ValidationIssue[],
+    readonly issueCount: number,
+    readonly invalidCount: number,
+    readonly totalCount: number
+  ) {
+    super((invalidCount > 0
+      ? `${invalidCount.toLocaleString()} of ${totalCount.toLocaleString()} events don't match the trace format`
+      : "The trace doesn't match the trace format") +
+      (issues.length > 0 ? `, e.g. ${formatIssue(issues[0])}` : ''));
+    this.name = 'TraceValidationError';
+  }
+}
+
+// Parses and builds the tree in a Web Worker so multi-hundred-MB traces don't block the UI.
+// Cancelling terminates the worker and rejects the promise with an AbortError.
+export function loadTrace(
+  source: Blob,
+  onProgress?: (progress: LoadProgress) => void,
+  { skipInvalid = false, importFormat = null }: LoadTraceOptions = {}
+): TraceLoadTask {
+  const worker = new Worker(new URL('../workers/traceLoader.worker.ts', import.meta.url), { type: 'module' });
+  let rejectTask: (reason: unknown) => void = () => {};
+
+  const promise = new Promise<LoadedTrace>((resolve, reject) => {
+    rejectTask = reject;
+
+    worker.onmessage = (e: MessageEvent<LoaderResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          worker.terminate();
+          linkParents(message.tree);
+          resolve({
+            tree: message.tree,
+            metadata: message.metadata,
+            eventCount: message.eventCount,
+            diagnostics: message.diagnostics,
+            sources: message.sources,
+            contentHash: message.contentHash,
+          });
+          break;
+        case 'invalid':
+          worker.terminate();
+          reject(new TraceValidationError(message.issues, message.issueCount, message.invalidCount, message.totalCount));
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Trace loader crashed'));
+    };
+
+    const request: LoaderRequest = { type: 'load', source, skipInvalid, importFormat };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectTask(new DOMException('Trace loading was cancelled', 'AbortError'));
+    },
+  };
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
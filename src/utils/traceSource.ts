@@ -0,0 +1,43 @@
+// Where a trace comes from when the app opens without a file: a `?src=` URL
+// (so links can point at a published trace) or the last trace kept in localStorage.
+
+import { safeLocalStorage } from './storage';
+
+const STORAGE_KEY = 'tp-tree-viewer:last-trace';
+// localStorage usually caps out around 5 MB per origin
+const STORAGE_LIMIT_BYTES = 4 * 1024 * 1024;
+
+export function getTraceUrl(search = window.location.search): string | null {
+  return new URLSearchParams(search).get('src');
+}
+
+export async function fetchTrace(url: string, signal?: AbortSignal): Promise<Blob> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return response.blob();
+}
+
+export function getStoredTrace(): Blob | null {
+  const text = safeLocalStorage.get(STORAGE_KEY);
+  return text ? new Blob([text], { type: 'application/json' }) : null;
+}
+
+// Best effort: traces that are too large or over quota simply aren't remembered
+export async function storeTrace(source: Blob): Promise<boolean> {
+  if (source.size > STORAGE_LIMIT_BYTES) return false;
+  return safeLocalStorage.set(STORAGE_KEY, await source.text());
+}
+
+export function clearStoredTrace() {
+  safeLocalStorage.remove(STORAGE_KEY);
+}
+
+// Drops `?src=` so going back to the upload screen doesn't reload the same trace
+export function clearTraceUrl() {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('src')) return;
+  url.searchParams.delete('src');
+  window.history.replaceState(window.history.state, '', url.toString());
+}
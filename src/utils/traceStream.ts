@@ -0,0 +1,321 @@
+import { ValidationIssue } from '../types';
+
+export interface TraceStreamHandlers {
+  // Events are handed over as parsed JSON; checking their shape is up to the caller.
+  // `path` locates the event in the input for error messages, e.g. "events[12]" or "line 12".
+  onEvent: (event: unknown, path: string) => void;
+  onMeta: (key: string, value: unknown) => void;
+  // Problems with the document outside any one event, e.g. a TPTreeData object without an "events" array
+  onIssue?: (issue: ValidationIssue) => void;
+}
+
+export interface TraceStreamParser {
+  write(chunk: string): void;
+  end(): void;
+}
+
+interface Frame {
+  kind: 'object' | 'array';
+  isEvents: boolean;
+  expectKey: boolean;
+}
+
+const QUOTE = 34;      // "
+const BACKSLASH = 92;  // \
+const COMMA = 44;      // ,
+const COLON = 58;      // :
+const OPEN_BRACE = 123;
+const CLOSE_BRACE = 125;
+const OPEN_BRACKET = 91;
+const CLOSE_BRACKET = 93;
+
+function isWhitespace(code: number): boolean {
+  return code === 32 || code === 10 || code === 13 || code === 9;
+}
+
+// Incremental scanner for TPTreeData documents (or bare event arrays).
+// Only one event is held in memory at a time: every element of the top-level
+// "events" array is sliced out and handed to JSON.parse as soon as it closes,
+// and the consumed part of the buffer is dropped after each chunk.
+export function createTraceStreamParser({ onEvent, onMeta, onIssue }: TraceStreamHandlers): TraceStreamParser {
+  let buffer = '';
+  let pos = 0;
+  const stack: Frame[] = [];
+  let rootKind: 'object' | 'array' | null = null;
+  let rootClosed = false;
+  let sawEventsArray = false;
+
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  let keyStart = -1;
+  let currentKey: string | null = null;
+  let literalStart = -1;
+
+  let captureStart = -1;
+  let captureDepth = -1;
+  let eventIndex = 0;
+
+  function isCaptureLevel(): boolean {
+    if (rootKind === 'array') return stack.length === 1;
+    if (stack.length === 1) return currentKey !== 'events';
+    return stack.length === 2 && stack[1].isEvents;
+  }
+
+  function startValue(index: number) {
+    if (captureStart < 0 && isCaptureLevel()) {
+      captureStart = index;
+      captureDepth = stack.length;
+    }
+  }
+
+  function endValue(end: number) {
+    if (captureStart < 0 || stack.length !== captureDepth) return;
+
+    const value = JSON.parse(buffer.slice(captureStart, end));
+    captureStart = -1;
+
+    if (rootKind === 'object' && stack.length === 1) {
+      onMeta(currentKey ?? '', value);
+    } else {
+      onEvent(value, rootKind === 'array' ? `[${eventIndex++}]` : `events[${eventIndex++}]`);
+    }
+  }
+
+  function scan() {
+    const length = buffer.length;
+    let i = pos;
+
+    for (; i < length; i++) {
+      const code = buffer.charCodeAt(i);
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (code === BACKSLASH) {
+          escaped = true;
+        } else if (code === QUOTE) {
+          inString = false;
+          if (stringIsKey) {
+            if (keyStart >= 0) {
+              currentKey = JSON.parse(buffer.slice(keyStart, i + 1));
+              keyStart = -1;
+            }
+          } else {
+            endValue(i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (literalStart >= 0) {
+        if (!isWhitespace(code) && code !== COMMA && code !== CLOSE_BRACE && code !== CLOSE_BRACKET) {
+          continue;
+        }
+        literalStart = -1;
+        endValue(i);
+      }
+
+      if (isWhitespace(code)) continue;
+
+      if (rootClosed) {
+        throw new Error(`Unexpected data after the end of the JSON document at offset ${i}`);
+      }
+
+      const top = stack[stack.length - 1];
+
+      switch (code) {
+        case QUOTE:
+          if (!top) throw new Error('Expected a JSON object or array');
+          inString = true;
+          stringIsKey = top.kind === 'object' && top.expectKey;
+          if (stringIsKey) {
+            if (stack.length === 1) keyStart = i;
+          } else {
+            startValue(i);
+          }
+          break;
+
+        case OPEN_BRACE:
+          if (!top) {
+            rootKind = 'object';
+          } else {
+            startValue(i);
+          }
+          stack.push({ kind: 'object', isEvents: false, expectKey: true });
+          break;
+
+        case OPEN_BRACKET:
+          if (!top) {
+            rootKind = 'array';
+            stack.push({ kind: 'array', isEvents: true, expectKey: false });
+          } else {
+            startValue(i);
+            const isEvents = rootKind === 'object' && stack.length === 1 && currentKey === 'events';
+            if (isEvents) sawEventsArray = true;
+            stack.push({ kind: 'array', isEvents, expectKey: false });
+          }
+          break;
+
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET:
+          stack.pop();
+          if (stack.length === 0) {
+            rootClosed = true;
+          } else {
+            endValue(i + 1);
+          }
+          break;
+
+        case COLON:
+          if (top) top.expectKey = false;
+          break;
+
+        case COMMA:
+          if (top && top.kind === 'object') top.expectKey = true;
+          break;
+
+        default:
+          if (!top) throw new Error('Expected a JSON object or array');
+          literalStart = i;
+          startValue(i);
+      }
+    }
+
+    // Drop everything that has been fully consumed
+    let keep = i;
+    if (captureStart >= 0) keep = Math.min(keep, captureStart);
+    if (keyStart >= 0) keep = Math.min(keep, keyStart);
+    if (literalStart >= 0) keep = Math.min(keep, literalStart);
+
+    buffer = buffer.slice(keep);
+    pos = i - keep;
+    if (captureStart >= 0) captureStart -= keep;
+    if (keyStart >= 0) keyStart -= keep;
+    if (literalStart >= 0) literalStart -= keep;
+  }
+
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      scan();
+    },
+
+    end() {
+      if (literalStart >= 0) {
+        literalStart = -1;
+        endValue(buffer.length);
+      }
+      if (!rootClosed) {
+        throw new Error(rootKind ? 'Unexpected end of JSON input' : 'File is empty');
+      }
+      // A missing or mistyped "events" key would otherwise load as an empty trace
+      if (rootKind === 'object' && !sawEventsArray) {
+        onIssue?.({ path: 'events', message: 'expected array' });
+      }
+    },
+  };
+}
+
+// Header lines such as {"version": "1.0.0", "timestamp": "..."} carry metadata instead of an event
+export function isMetadataRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !('event' in value);
+}
+
+// Newline-delimited JSON: one event object per line, optionally preceded by a header line.
+// Lines are parsed as soon as they are complete, so only one line is buffered at a time.
+export function createNdjsonStreamParser({ onEvent, onMeta, onIssue }: TraceStreamHandlers): TraceStreamParser {
+  let buffer = '';
+  let lineNumber = 0;
+  let sawContent = false;
+  let sawEvent = false;
+
+  function handleLine(line: string) {
+    lineNumber++;
+    const text = line.trim();
+    if (!text) return;
+    sawContent = true;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (isMetadataRecord(value)) {
+      Object.entries(value).forEach(([key, metaValue]) => onMeta(key, metaValue));
+    } else {
+      sawEvent = true;
+      onEvent(value, `line ${lineNumber}`);
+    }
+  }
+
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      let start = 0;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n', start)) >= 0) {
+        handleLine(buffer.slice(start, newline));
+        start = newline + 1;
+      }
+      buffer = buffer.slice(start);
+    },
+
+    end() {
+      if (buffer) handleLine(buffer);
+      buffer = '';
+      if (!sawContent) throw new Error('File is empty');
+      // Header lines alone are also what a one-line TPTreeData document without "events" looks like
+      if (!sawEvent) onIssue?.({ path: 'events', message: 'expected array' });
+    },
+  };
+}
+
+// Input is sniffed until its first line is known; a long first line means a JSON document
+const SNIFF_LIMIT = 64 * 1024;
+
+// NDJSON when the first line is a complete JSON object on its own (and not a
+// one-line TPTreeData document); anything else goes to the JSON document parser.
+function looksLikeNdjson(text: string): boolean {
+  const content = text.trimStart();
+  const newline = content.indexOf('\n');
+  const firstLine = (newline >= 0 ? content.slice(0, newline) : content).trim();
+  if (!firstLine.startsWith('{')) return false;
+
+  try {
+    const value = JSON.parse(firstLine);
+    return !(isMetadataRecord(value) && 'events' in value);
+  } catch {
+    return false;
+  }
+}
+
+// Accepts either a TPTreeData document / bare event array or NDJSON events
+export function createTraceParser(handlers: TraceStreamHandlers): TraceStreamParser {
+  let parser: TraceStreamParser | null = null;
+  let pending = '';
+
+  function choose() {
+    parser = looksLikeNdjson(pending) ? createNdjsonStreamParser(handlers) : createTraceStreamParser(handlers);
+    parser.write(pending);
+    pending = '';
+    return parser;
+  }
+
+  return {
+    write(chunk: string) {
+      if (parser) {
+        parser.write(chunk);
+        return;
+      }
+      pending += chunk;
+      if (pending.trimStart().includes('\n') || pending.length >= SNIFF_LIMIT) choose();
+    },
+
+    end() {
+      (parser ?? choose()).end();
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { DiagnosticKind, TraceDiagnostic, TreeNodeData, ValidationIssue } from '../types';
+import { KNOWN_FORMAT_VERSIONS } from './traceFormat';
+
+const EVENT_TYPES = ['call', 'return', 'call_return'];
+// Enough to show what's wrong without shipping a copy of a broken trace back to the UI
+export const MAX_REPORTED_ISSUES = 100;
+export const MAX_REPORTED_DIAGNOSTICS = 100;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const orNull = (check: Check): Check => value => value === null || check(value);
+
+// Field name -> (check, expectation shown in the error)
+const FIELDS: Array<[keyof TreeNodeData, Check, string]> = [
+  ['method_name', isString, 'string'],
+  ['depth', value => Number.isInteger(value) && (value as number) >= 0, 'non-negative integer'],
+  ['defined_class', orNull(isString), 'string or null'],
+  ['path', orNull(isString), 'string or null'],
+  ['lineno', orNull(isNumber), 'number or null'],
+  ['start_time', orNull(isNumber), 'number or null'],
+  ['end_time', orNull(isNumber), 'number or null'],
+  ['duration', orNull(isNumber), 'number or null'],
+];
+
+// Checks one entry of the events array against the TreeNodeData shape.
+// `path` is the location used in messages, e.g. "events[1532]".
+export function validateEvent(value: unknown, path: string): ValidationIssue[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ path, message: `expected event object, got ${describe(value)}` }];
+  }
+
+  const event = value as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  if (!EVENT_TYPES.includes(event.event as string)) {
+    issues.push({
+      path: `${path}.event`,
+      message: `expected one of ${EVENT_TYPES.map(type => `"${type}"`).join(', ')}, got ${
+        typeof event.event === 'string' ? `"${event.event}"` : describe(event.event)
+      }`,
+    });
+  }
+
+  for (const [field, check, expected] of FIELDS) {
+    if (!check(event[field])) {
+      issues.push({ path: `${path}.${field}`, message: `expected ${expected}, got ${describe(event[field])}` });
+    }
+  }
+
+  const { parameters } = event;
+  if (parameters !== null && !Array.isArray(parameters)) {
+    issues.push({ path: `${path}.parameters`, message: `expected array or null, got ${describe(parameters)}` });
+  } else if (parameters) {
+    parameters.forEach((parameter, i) => {
+      const parameterPath = `${path}.parameters[${i}]`;
+      if (typeof parameter !== 'object' || parameter === null) {
+        issues.push({ path: parameterPath, message: `expected parameter object, got ${describe(parameter)}` });
+        return;
+      }
+      for (const key of ['name', 'type'] as const) {
+        if (!isString(parameter[key])) {
+          issues.push({ path: `${parameterPath}.${key}`, message: `expected string, got ${describe(parameter[key])}` });
+        }
+      }
+    });
+  }
+
+  return issues;
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+export interface DiagnosticsCollector {
+  check(event: TreeNodeData, path: string): void;
+  // Called once the trace's declared format version (if any) is known to be readable
+  checkVersion(version: string | null): void;
+  finish(): { warnings: TraceDiagnostic[]; warningCount: number };
+}
+
+// Structural oddities in otherwise valid events. They don't stop loading but
+// usually mean the tracer and the viewer disagree about what happened.
+export function createDiagnosticsCollector(): DiagnosticsCollector {
+  const warnings: TraceDiagnostic[] = [];
+  let warningCount = 0;
+  let previousDepth: number | null = null;
+  let previousStart: number | null = null;
+
+  function report(kind: DiagnosticKind, path: string, message: string) {
+    warningCount++;
+    if (warnings.length < MAX_REPORTED_DIAGNOSTICS) warnings.push({ kind, path, message });
+  }
+
+  return {
+    check(event, path) {
+      // A call can only open one level below the innermost open frame
+      if (event.event !== 'return' && previousDepth !== null && event.depth > previousDepth + 1) {
+        report('depth-jump', `${path}.depth`, `depth jumps from ${previousDepth} to ${event.depth}`);
+      }
+      previousDepth = event.event === 'return' ? event.depth - 1 : event.depth;
+
+      if (event.duration !== null && event.duration < 0) {
+        report('negative-duration', `${path}.duration`, `negative duration ${event.duration}`);
+      } else if (event.start_time !== null && event.end_time !== null && event.end_time < event.start_time) {
+        report('negative-duration', `${path}.end_time`, `end_time ${event.end_time} is before start_time ${event.start_time}`);
+      }
+
+      if (event.event !== 'return' && event.start_time !== null) {
+        if (previousStart !== null && event.start_time < previousStart) {
+          report('non-monotonic-start', `${path}.start_time`, `start_time ${event.start_time} is earlier than the previous call's ${previousStart}`);
+        }
+        previousStart = event.start_time;
+      }
+    },
+    checkVersion(version) {
+      if (version !== null && !KNOWN_FORMAT_VERSIONS.includes(version)) {
+        report('unknown-version', 'version', `${version} is not a format version this viewer knows (${KNOWN_FORMAT_VERSIONS.join(', ')}); unknown fields are ignored`);
+      }
+    },
+    finish: () => ({ warnings, warningCount }),
+  };
+}
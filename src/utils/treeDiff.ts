@@ -0,0 +1,166 @@
+import { TreeNodeDisplay } from '../types';
+import { getMethodKey, MethodStats } from './performanceStats';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface DiffSide {
+  calls: number;
+  duration: number;
+  node_ids: string[];
+}
+
+// One node per distinct call path: all invocations of the same Class#method
+// under the same aligned parent are merged, so call counts can be compared.
+export interface DiffNode {
+  id: string;
+  method_name: string;
+  defined_class: string | null;
+  depth: number;
+  base: DiffSide | null;
+  target: DiffSide | null;
+  status: DiffStatus;
+  durationDelta: number;
+  callDelta: number;
+  children: DiffNode[];
+  parent?: DiffNode;
+}
+
+export interface MethodDelta {
+  durationDelta: number;
+  callDelta: number;
+  isNew: boolean;
+  // Only in the baseline; the deltas are then the baseline's totals, negated
+  isRemoved: boolean;
+}
+
+// Relative duration change below which timings are considered noise
+export const DURATION_CHANGE_THRESHOLD = 0.05;
+
+function groupByMethod(nodes: TreeNodeDisplay[]): Map<string, TreeNodeDisplay[]> {
+  const groups = new Map<string, TreeNodeDisplay[]>();
+  nodes.forEach(node => {
+    const key = getMethodKey(node);
+    const group = groups.get(key);
+    if (group) {
+      group.push(node);
+    } else {
+      groups.set(key, [node]);
+    }
+  });
+  return groups;
+}
+
+function summarize(nodes: TreeNodeDisplay[]): DiffSide | null {
+  if (nodes.length === 0) return null;
+  return {
+    calls: nodes.length,
+    duration: nodes.reduce((sum, node) => sum + (node.duration || 0), 0),
+    node_ids: nodes.map(node => node.id),
+  };
+}
+
+function isSignificantChange(base: number, target: number): boolean {
+  return Math.abs(target - base) > Math.max(base, target) * DURATION_CHANGE_THRESHOLD;
+}
+
+function diffLevel(
+  baseNodes: TreeNodeDisplay[],
+  targetNodes: TreeNodeDisplay[],
+  parent: DiffNode | undefined,
+  depth: number
+): DiffNode[] {
+  const baseGroups = groupByMethod(baseNodes);
+  const targetGroups = groupByMethod(targetNodes);
+  // Keep the baseline order, then append methods only present in the new trace
+  const keys = [...baseGroups.keys(), ...[...targetGroups.keys()].filter(key => !baseGroups.has(key))];
+
+  return keys.map(key => {
+    const baseGroup = baseGroups.get(key) || [];
+    const targetGroup = targetGroups.get(key) || [];
+    const sample = baseGroup[0] || targetGroup[0];
+    const base = summarize(baseGroup);
+    const target = summarize(targetGroup);
+
+    const durationDelta = (target?.duration || 0) - (base?.duration || 0);
+    const callDelta = (target?.calls || 0) - (base?.calls || 0);
+
+    let status: DiffStatus;
+    if (!base) {
+      status = 'added';
+    } else if (!target) {
+      status = 'removed';
+    } else if (callDelta !== 0 || isSignificantChange(base.duration, target.duration)) {
+      status = 'changed';
+    } else {
+      status = 'unchanged';
+    }
+
+    const node: DiffNode = {
+      id: parent ? `${parent.id}/${key}` : key,
+      method_name: sample.method_name,
+      defined_class: sample.defined_class,
+      depth,
+      base,
+      target,
+      status,
+      durationDelta,
+      callDelta,
+      children: [],
+      parent,
+    };
+
+    node.children = diffLevel(
+      baseGroup.flatMap(n => n.children),
+      targetGroup.flatMap(n => n.children),
+      node,
+      depth + 1
+    );
+
+    return node;
+  });
+}
+
+// Aligns two call trees by class, method and call path
+export function diffTrees(base: TreeNodeDisplay[], target: TreeNodeDisplay[]): DiffNode[] {
+  return diffLevel(base, target, undefined, 0);
+}
+
+export function isRegression(node: DiffNode): boolean {
+  if (node.status === 'added') return true;
+  if (!node.base || !node.target) return false;
+  return node.callDelta > 0 || (node.durationDelta > 0 && isSignificantChange(node.base.duration, node.target.duration));
+}
+
+export function compareMethodStats(current: MethodStats[], baseline: MethodStats[]): Map<string, MethodDelta> {
+  const baselineByKey = new Map(baseline.map(stats => [stats.key, stats]));
+  const deltas = new Map<string, MethodDelta>();
+
+  current.forEach(stats => {
+    const previous = baselineByKey.get(stats.key);
+    deltas.set(stats.key, {
+      durationDelta: stats.total_time - (previous?.total_time || 0),
+      callDelta: stats.call_count - (previous?.call_count || 0),
+      isNew: !previous,
+      isRemoved: false,
+    });
+  });
+
+  baseline.forEach(stats => {
+    if (deltas.has(stats.key)) return;
+    deltas.set(stats.key, {
+      durationDelta: -stats.total_time,
+      callDelta: -stats.call_count,
+      isNew: false,
+      isRemoved: true,
+    });
+  });
+
+  return deltas;
+}
+
+export function isMethodRegression(stats: MethodStats, delta: MethodDelta | undefined): boolean {
+  if (!delta || delta.isRemoved) return false;
+  if (delta.isNew) return true;
+  const previousTime = stats.total_time - delta.durationDelta;
+  return delta.callDelta > 0 || (delta.durationDelta > 0 && isSignificantChange(previousTime, stats.total_time));
+}
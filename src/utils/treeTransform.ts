@@ -1,28 +1,104 @@
 import { TreeNodeData, TreeNodeDisplay } from '../types';
 
-export function transformTreeData(events: TreeNodeData[]): TreeNodeDisplay[] {
+export interface TreeBuilder {
+  push(event: TreeNodeData): void;
+  finish(): TreeNodeDisplay[];
+  // Roots built so far, including calls that are still open (for live traces)
+  snapshot(): TreeNodeDisplay[];
+  // Forgets the oldest finished calls until at most `maxNodes` nodes remain; returns how many were dropped
+  evictOldest(maxNodes: number): number;
+}
+
+function countNodes(root: TreeNodeDisplay): number {
+  let count = 0;
+  const pending = [root];
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    count++;
+    for (const child of node.children) pending.push(child);
+  }
+  return count;
+}
+
+// Returns are paired with the innermost open call of the same frame
+// (depth, class, method and path), mirroring the real call stack.
+function isSameFrame(node: TreeNodeDisplay, event: TreeNodeData): boolean {
+  return node.depth === event.depth &&
+    node.method_name === event.method_name &&
+    node.defined_class === event.defined_class &&
+    node.path === event.path;
+}
+
+// Builds the tree one event at a time so large traces can be processed in chunks.
+// Pass `linkParents: false` when the result has to cross a worker boundary;
+// parent links can be restored afterwards with `linkParents`.
+export function createTreeBuilder({ linkParents = true }: { linkParents?: boolean } = {}): TreeBuilder {
   const nodes: TreeNodeDisplay[] = [];
   const stack: TreeNodeDisplay[] = [];
-  const callStack: { [key: string]: TreeNodeDisplay } = {};
+  // 'call' nodes on the stack that haven't seen their return yet
+  const awaitingReturn = new Set<TreeNodeDisplay>();
+  let index = 0;
+  let nodeCount = 0;
 
-  events.forEach((event, index) => {
-    // Skip return events - we'll merge them with their corresponding calls
+  function attach(node: TreeNodeDisplay, parent: TreeNodeDisplay | undefined) {
+    nodeCount++;
+    if (parent) {
+      parent.children.push(node);
+      if (linkParents) node.parent = parent;
+    } else {
+      nodes.push(node);
+    }
+  }
+
+  // A call that leaves the stack without a return (exception, throw, truncated trace)
+  function popFrame() {
+    const popped = stack.pop();
+    if (popped && awaitingReturn.delete(popped)) {
+      popped.status = 'unterminated';
+    }
+  }
+
+  function push(event: TreeNodeData) {
+    const eventIndex = index++;
+
+    // Return events are merged into their corresponding call
     if (event.event === 'return') {
-      // Find the corresponding call and merge the return value
-      const callKey = `${event.depth}-${event.method_name}`;
-      const callNode = callStack[callKey];
-      if (callNode) {
+      let callIndex = stack.length - 1;
+      while (callIndex >= 0 && !(awaitingReturn.has(stack[callIndex]) && isSameFrame(stack[callIndex], event))) {
+        callIndex--;
+      }
+
+      if (callIndex >= 0) {
+        // Anything opened after the call and still open was unwound without returning
+        while (stack.length > callIndex + 1) popFrame();
+
+        const callNode = stack.pop()!;
+        awaitingReturn.delete(callNode);
         callNode.return_value = event.return_value;
         callNode.end_time = event.end_time;
         callNode.duration = event.duration;
-        delete callStack[callKey];
+        return;
       }
+
+      // No open call to pair with: keep the return visible as its own node,
+      // without disturbing the stack so later returns can still pair up
+      let parentIndex = stack.length - 1;
+      while (parentIndex >= 0 && stack[parentIndex].level >= event.depth) parentIndex--;
+
+      attach({
+        ...event,
+        id: `node-${eventIndex}`,
+        children: [],
+        isExpanded: true,
+        level: event.depth,
+        status: 'unmatched',
+      }, stack[parentIndex]);
       return;
     }
 
     const node: TreeNodeDisplay = {
       ...event,
-      id: `node-${index}`,
+      id: `node-${eventIndex}`,
       children: [],
       isExpanded: true,
       level: event.depth,
@@ -30,32 +106,82 @@ export function transformTreeData(events: TreeNodeData[]): TreeNodeDisplay[] {
 
     // Find the correct parent based on depth
     while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
-      const popped = stack.pop();
-      if (popped) {
-        const key = `${popped.depth}-${popped.method_name}`;
-        delete callStack[key];
-      }
+      popFrame();
     }
 
-    if (stack.length > 0) {
-      const parent = stack[stack.length - 1];
-      parent.children.push(node);
-      node.parent = parent;
-    } else {
-      nodes.push(node);
-    }
+    attach(node, stack[stack.length - 1]);
 
-    // For 'call' events, track them for potential merging with return
     if (event.event === 'call') {
-      const callKey = `${event.depth}-${event.method_name}`;
-      callStack[callKey] = node;
+      awaitingReturn.add(node);
     }
 
     // Push all non-return events to stack (things that can have children)
     stack.push(node);
-  });
+  }
+
+  return {
+    push,
+    finish: () => {
+      while (stack.length > 0) popFrame();
+      return nodes;
+    },
+    snapshot: () => [...nodes],
+    evictOldest: (maxNodes: number) => {
+      let dropped = 0;
+      // Earlier roots go first, then the earlier children of each call still running, down
+      // the stack, so a trace under one long-running root is bounded too. Open calls and
+      // the latest call at each level are kept.
+      let siblings = nodes;
+      for (let level = 0; nodeCount > maxNodes; level++) {
+        const open: TreeNodeDisplay | undefined = stack[level];
+        let evicted = 0;
+        while (nodeCount > maxNodes && evicted < siblings.length - 1 && siblings[evicted] !== open) {
+          const size = countNodes(siblings[evicted]);
+          nodeCount -= size;
+          dropped += size;
+          evicted++;
+        }
+        siblings.splice(0, evicted);
+        if (!open) break;
+        siblings = open.children;
+      }
+      return dropped;
+    },
+  };
+}
+
+export function transformTreeData(events: TreeNodeData[]): TreeNodeDisplay[] {
+  const builder = createTreeBuilder();
+  events.forEach(event => builder.push(event));
+  return builder.finish();
+}
+
+export function linkParents(nodes: TreeNodeDisplay[]): void {
+  // Iterative so very deep traces don't overflow the call stack
+  const pending = [...nodes];
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    for (const child of node.children) {
+      child.parent = node;
+      pending.push(child);
+    }
+  }
+}
 
-  return nodes;
+// Copies the tree structure, so a live trace's builder can keep adding children and
+// filling in returns without changing what's on screen. Iterative like linkParents.
+export function cloneTree(nodes: TreeNodeDisplay[]): TreeNodeDisplay[] {
+  const roots = nodes.map((node): TreeNodeDisplay => ({ ...node, children: [], parent: undefined }));
+  const pending: Array<[TreeNodeDisplay, TreeNodeDisplay]> = nodes.map((node, i) => [node, roots[i]]);
+  while (pending.length > 0) {
+    const [original, copy] = pending.pop()!;
+    for (const child of original.children) {
+      const childCopy: TreeNodeDisplay = { ...child, children: [], parent: copy };
+      copy.children.push(childCopy);
+      pending.push([child, childCopy]);
+    }
+  }
+  return roots;
 }
 
 export function flattenTree(nodes: TreeNodeDisplay[]): TreeNodeDisplay[] {
@@ -74,6 +200,13 @@ export function flattenTree(nodes: TreeNodeDisplay[]): TreeNodeDisplay[] {
   return result;
 }
 
+// Exclusive time: the part of a call's duration not spent in traced children
+export function getSelfTime(node: TreeNodeDisplay): number {
+  if (node.duration === null) return 0;
+  const childTime = node.children.reduce((sum, child) => sum + (child.duration || 0), 0);
+  return Math.max(node.duration - childTime, 0);
+}
+
 export function formatDuration(duration: number | null): string {
   if (duration === null) return '';
 
@@ -86,6 +219,18 @@ export function formatDuration(duration: number | null): string {
   }
 }
 
+export function formatDurationDelta(delta: number): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '-' : '±';
+  return `${sign}${formatDuration(Math.abs(delta))}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
 export function formatParameters(parameters: any): string {
   if (!parameters || !Array.isArray(parameters)) return '';
 
@@ -135,53 +280,6 @@ export function formatParameters(parameters: any): string {
   }).join(', ');
 }
 
-export function formatValueFull(value: any): string {
-  if (value === null) return 'nil';
-  if (typeof value === 'boolean') return String(value);
-  if (typeof value === 'number') return String(value);
-  if (typeof value === 'string') return `"${value}"`;
-  if (typeof value === 'symbol') return `:${String(value)}`;
-
-  if (Array.isArray(value)) {
-    if (value.length === 0) return '[]';
-    const items = value.map(v => formatValueFull(v)).join(',\n  ');
-    return `[\n  ${items}\n]`;
-  }
-
-  if (typeof value === 'object' && value !== null) {
-    const entries = Object.entries(value);
-    if (entries.length === 0) return '{}';
-    const items = entries.map(([k, v]) => `${JSON.stringify(k)}: ${formatValueFull(v)}`).join(',\n  ');
-    return `{\n  ${items}\n}`;
-  }
-
-  return String(value);
-}
-
-export function formatParametersFull(parameters: any): string {
-  if (!parameters || !Array.isArray(parameters)) return '';
-
-  return parameters.map(param => {
-    const { type, name, value } = param;
-    switch (type) {
-      case 'req':
-      case 'opt':
-        return `${name} = ${formatValueFull(value)}`;
-      case 'keyreq':
-      case 'key':
-        return value === null ? `${name}:` : `${name} = ${formatValueFull(value)}`;
-      case 'rest':
-        return `*${name}`;
-      case 'keyrest':
-        return `**${name}`;
-      case 'block':
-        return `&${name}`;
-      default:
-        return String(name);
-    }
-  }).join(',\n');
-}
-
 export function formatValue(value: any, maxLength: number = 50): string {
   if (value === null) return 'nil';
   if (typeof value === 'boolean') return String(value);
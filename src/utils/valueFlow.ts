@@ -0,0 +1,89 @@
+import { TreeNodeDisplay } from '../types';
+import { childPath, getEntries, isContainer } from './valueInspector';
+
+// A return value produces the traced value; a parameter consumes it
+export type ValueFlowRole = 'producer' | 'consumer';
+
+export interface ValueFlowHit {
+  node: TreeNodeDisplay;
+  role: ValueFlowRole;
+  // Where in the call the value was found, e.g. `user[:id]` or `return_value[0]`
+  location: string;
+  match: 'equal' | 'substring';
+  // For consumers: the latest producer that returned before this call started
+  producer: ValueFlowHit | null;
+}
+
+// Shorter strings and numbers would match inside almost everything
+const MIN_SUBSTRING_LENGTH = 3;
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aEntries = getEntries(a);
+  const bEntries = getEntries(b);
+  if (aEntries.length !== bEntries.length) return false;
+  const bMap = new Map(bEntries);
+  return aEntries.every(([key, value]) => bMap.has(key) && valuesEqual(value, bMap.get(key)));
+}
+
+function getNeedle(target: unknown): string | null {
+  if (typeof target !== 'string' && typeof target !== 'number') return null;
+  const needle = String(target);
+  return needle.length >= MIN_SUBSTRING_LENGTH ? needle : null;
+}
+
+// First place inside `value` (depth-first) equal to the target, or failing that a string containing it
+function findIn(value: unknown, path: string, target: unknown, needle: string | null): { location: string; match: 'equal' | 'substring' } | null {
+  let substring: string | null = null;
+
+  const pending: Array<[unknown, string]> = [[value, path]];
+  while (pending.length > 0) {
+    const [current, currentPath] = pending.pop()!;
+    if (valuesEqual(current, target)) return { location: currentPath, match: 'equal' };
+    if (substring === null && needle !== null && typeof current === 'string' && current.includes(needle)) {
+      substring = currentPath;
+    }
+    if (isContainer(current)) {
+      const entries = getEntries(current);
+      for (let i = entries.length - 1; i >= 0; i--) {
+        pending.push([entries[i][1], childPath(currentPath, entries[i][0])]);
+      }
+    }
+  }
+
+  return substring !== null ? { location: substring, match: 'substring' } : null;
+}
+
+// Finds every parameter and return value holding `target`, in the order the trace saw
+// them: parameters when their call starts, return values when it returns. Each consumer
+// is linked to the producer that returned the value most recently before it.
+export function traceValue(data: TreeNodeDisplay[], target: unknown): ValueFlowHit[] {
+  const needle = getNeedle(target);
+  const hits: ValueFlowHit[] = [];
+  let lastProducer: ValueFlowHit | null = null;
+
+  function visit(node: TreeNodeDisplay) {
+    for (const param of node.parameters ?? []) {
+      const found = findIn(param.value, param.name || param.type, target, needle);
+      if (found) {
+        hits.push({ node, role: 'consumer', ...found, producer: lastProducer });
+        break;
+      }
+    }
+
+    node.children.forEach(visit);
+
+    if (node.return_value !== null && node.return_value !== undefined) {
+      const found = findIn(node.return_value, 'return_value', target, needle);
+      if (found) {
+        lastProducer = { node, role: 'producer', ...found, producer: null };
+        hits.push(lastProducer);
+      }
+    }
+  }
+
+  data.forEach(visit);
+  return hits;
+}
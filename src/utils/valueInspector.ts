@@ -0,0 +1,89 @@
+// Helpers for the value inspector: how parameters and return values, as serialized
+// from Ruby, are classified, addressed and searched.
+
+export type ValueKind = 'nil' | 'boolean' | 'integer' | 'float' | 'string' | 'symbol' | 'object' | 'truncated' | 'array' | 'hash';
+
+export interface ValueInfo {
+  kind: ValueKind;
+  // Type badge, e.g. "Hash", "Symbol" or the class of an inspected object
+  badge: string;
+  // One-line rendering of the value itself; empty for arrays and hashes
+  text: string;
+}
+
+// Ruby values the tracer can't serialize as JSON arrive as strings in a few recognizable shapes
+const SYMBOL = /^:(?:[A-Za-z_]\w*[?!=]?|"(?:[^"\\]|\\.)*")$/;
+const INSPECT = /^#<([A-Z][\w:]*)[\s\S]*>$/;
+const TRUNCATED = /(?:\.\.\.|…)\s*[([]?(?:truncated|\+?\d+ more\b[^)\]]*)[)\]]?$|^\[truncated\]$/i;
+
+export function describeValue(value: unknown): ValueInfo {
+  if (value === null || value === undefined) return { kind: 'nil', badge: 'nil', text: 'nil' };
+  if (typeof value === 'boolean') return { kind: 'boolean', badge: 'Boolean', text: String(value) };
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? { kind: 'integer', badge: 'Integer', text: String(value) }
+      : { kind: 'float', badge: 'Float', text: String(value) };
+  }
+  if (Array.isArray(value)) return { kind: 'array', badge: `Array(${value.length})`, text: '' };
+  if (typeof value === 'object') return { kind: 'hash', badge: `Hash(${Object.keys(value).length})`, text: '' };
+
+  const text = String(value);
+  if (SYMBOL.test(text)) return { kind: 'symbol', badge: 'Symbol', text };
+  const inspected = INSPECT.exec(text);
+  if (inspected) return { kind: 'object', badge: inspected[1], text };
+  if (TRUNCATED.test(text)) return { kind: 'truncated', badge: 'Truncated', text };
+  return { kind: 'string', badge: 'String', text: JSON.stringify(text) };
+}
+
+export function isContainer(value: unknown): value is unknown[] | Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+export function getEntries(value: unknown[] | Record<string, unknown>): Array<[string | number, unknown]> {
+  return Array.isArray(value) ? value.map((item, i) => [i, item]) : Object.entries(value);
+}
+
+// Ruby-style access path, e.g. `params[:user]["emails"][0]`, so it can be pasted into a console
+export function childPath(parentPath: string, key: string | number): string {
+  if (typeof key === 'number') return `${parentPath}[${key}]`;
+  return SYMBOL.test(key) ? `${parentPath}[${key}]` : `${parentPath}[${JSON.stringify(key)}]`;
+}
+
+// What "Copy value" puts on the clipboard: strings as-is, everything else as JSON
+export function getCopyText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? 'null';
+}
+
+export interface ValueMatches {
+  // Paths whose key or value contains the query
+  matches: Set<string>;
+  // Paths of containers with a match somewhere inside, to be opened
+  ancestors: Set<string>;
+}
+
+export function findValueMatches(value: unknown, rootPath: string, query: string): ValueMatches {
+  const matches = new Set<string>();
+  const ancestors = new Set<string>();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { matches, ancestors };
+
+  function visit(current: unknown, path: string, key: string | number | null): boolean {
+    let found = key !== null && String(key).toLowerCase().includes(needle);
+    if (!isContainer(current)) {
+      found = found || describeValue(current).text.toLowerCase().includes(needle);
+      if (found) matches.add(path);
+      return found;
+    }
+
+    if (found) matches.add(path);
+    let inside = false;
+    getEntries(current).forEach(([childKey, child]) => {
+      if (visit(child, childPath(path, childKey), childKey)) inside = true;
+    });
+    if (inside) ancestors.add(path);
+    return found || inside;
+  }
+
+  visit(value, rootPath, null);
+  return { matches, ancestors };
+}
@@ -0,0 +1,72 @@
+import { TreeNodeDisplay } from '../types';
+
+// What the URL hash remembers about a TreeView. Nodes are addressed by their
+// child-index path from the roots (e.g. "0.2.5") so links survive reloads.
+export interface ViewState {
+  tab: string | null;
+  query: string;
+  selected: string | null;
+  // Root of the focused subtree in the Call Tree
+  focus: string | null;
+  expanded: string[] | 'all' | null;
+}
+
+// Past this many characters of paths the expansion is left out of the link, which then
+// opens with the default expansion instead of a URL too long to share or edit
+const MAX_EXPANDED_LENGTH = 4000;
+
+export interface NodePaths {
+  pathById: Map<string, string>;
+  nodeByPath: Map<string, TreeNodeDisplay>;
+  expandableCount: number;
+}
+
+export function buildNodePaths(data: TreeNodeDisplay[]): NodePaths {
+  const pathById = new Map<string, string>();
+  const nodeByPath = new Map<string, TreeNodeDisplay>();
+  let expandableCount = 0;
+
+  const pending: Array<[TreeNodeDisplay, string]> = data.map((node, i) => [node, String(i)]);
+  while (pending.length > 0) {
+    const [node, path] = pending.pop()!;
+    pathById.set(node.id, path);
+    nodeByPath.set(path, node);
+    if (node.children.length > 0) expandableCount++;
+    node.children.forEach((child, i) => pending.push([child, `${path}.${i}`]));
+  }
+
+  return { pathById, nodeByPath, expandableCount };
+}
+
+export function readViewState(hash = window.location.hash): ViewState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const open = params.get('open');
+
+  return {
+    tab: params.get('tab'),
+    query: params.get('q') ?? '',
+    selected: params.get('sel'),
+    focus: params.get('focus'),
+    expanded: open === null ? null : open === 'all' ? 'all' : open.split(',').filter(Boolean),
+  };
+}
+
+// Uses replaceState so view tweaks don't flood the back button
+export function writeViewState(state: ViewState) {
+  const parts: string[] = [];
+  if (state.tab) parts.push(`tab=${encodeURIComponent(state.tab)}`);
+  if (state.query) parts.push(`q=${encodeURIComponent(state.query)}`);
+  if (state.selected) parts.push(`sel=${state.selected}`);
+  if (state.focus) parts.push(`focus=${state.focus}`);
+  const open = state.expanded === 'all' ? 'all' : state.expanded?.join(',');
+  if (open !== undefined && open.length <= MAX_EXPANDED_LENGTH) parts.push(`open=${open}`);
+
+  const { pathname, search } = window.location;
+  const hash = parts.length > 0 ? `#${parts.join('&')}` : '';
+  window.history.replaceState(window.history.state, '', `${pathname}${search}${hash}`);
+}
+
+export function clearViewState() {
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, '', `${pathname}${search}`);
+}
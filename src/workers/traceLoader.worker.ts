@@ -0,0 +1,165 @@
+import { LoadProgress, SourceBundle, TraceDiagnostics, TraceMetadata, TreeNodeData, TreeNodeDisplay, ValidationIssue } from '../types';
+import { createTreeBuilder } from '../utils/treeTransform';
+import { createTraceParser, TraceStreamHandlers, TraceStreamParser } from '../utils/traceStream';
+import { createDiagnosticsCollector, MAX_REPORTED_ISSUES, validateEvent } from '../utils/traceValidation';
+import { CURRENT_FORMAT_VERSION, resolveTraceFormat, TraceFormat } from '../utils/traceFormat';
+import { createImportParser, getImporter, ImportFormat } from '../importers';
+import { createContentHasher } from '../utils/contentHash';
+
+// `skipInvalid` drops events that don't match the trace format instead of failing the load;
+// `importFormat` converts a profile from another tool instead of reading a tp_tree trace
+export type LoaderRequest = { type: 'load'; source: Blob; skipInvalid: boolean; importFormat: ImportFormat | null };
+
+export type LoaderResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'done'; tree: TreeNodeDisplay[]; metadata: TraceMetadata; eventCount: number; diagnostics: TraceDiagnostics; sources: SourceBundle | null; contentHash: string }
+  | { type: 'invalid'; issues: ValidationIssue[]; issueCount: number; invalidCount: number; totalCount: number }
+  | { type: 'error'; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(response: LoaderResponse) {
+  self.postMessage(response);
+}
+
+// The optional source bundle is a plain path → file contents map; anything else is ignored
+function parseSourceBundle(value: unknown): SourceBundle | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const bundle: SourceBundle = {};
+  Object.entries(value).forEach(([path, contents]) => {
+    if (typeof contents === 'string') bundle[path] = contents;
+  });
+  return bundle;
+}
+
+async function load(source: Blob, skipInvalid: boolean, importFormat: ImportFormat | null) {
+  // Parent links are left out so the tree can be structured-cloned cheaply;
+  // the main thread restores them.
+  const builder = createTreeBuilder({ linkParents: false });
+  const metadata: TraceMetadata = { version: 'unknown', timestamp: new Date().toISOString() };
+  const diagnostics = createDiagnosticsCollector();
+  const issues: ValidationIssue[] = [];
+  // Every problem found, of which `issues` keeps the first few
+  let issueCount = 0;
+  let sources: SourceBundle | null = null;
+  let eventCount = 0;
+  let invalidCount = 0;
+  let totalCount = 0;
+
+  // Decided by the "version" key seen before the first event
+  let declaredVersion: string | null = null;
+  let format: TraceFormat | null = null;
+  const getFormat = () => {
+    if (!format) {
+      format = resolveTraceFormat(declaredVersion);
+      if (format.migrated) metadata.migratedTo = CURRENT_FORMAT_VERSION;
+    }
+    return format;
+  };
+
+  const handlers: TraceStreamHandlers = {
+    onEvent: (raw, path) => {
+      totalCount++;
+      const value = getFormat().migrateEvent(raw);
+      const eventIssues = validateEvent(value, path);
+      if (eventIssues.length > 0) {
+        invalidCount++;
+        issueCount += eventIssues.length;
+        issues.push(...eventIssues.slice(0, MAX_REPORTED_ISSUES - issues.length));
+        return;
+      }
+      // Keep scanning to count the invalid events, but don't build a tree that will be thrown away
+      if (invalidCount > 0 && !skipInvalid) return;
+
+      const event = value as TreeNodeData;
+      diagnostics.check(event, path);
+      builder.push(event);
+      eventCount++;
+    },
+    onMeta: (key, value) => {
+      if (key === 'version' || key === 'timestamp') {
+        metadata[key] = String(value);
+      }
+      if (key === 'sources') {
+        sources = parseSourceBundle(value);
+      }
+      if (key === 'version') {
+        declaredVersion = String(value);
+        // Events already read can't be migrated after the fact
+        if (format && resolveTraceFormat(declaredVersion).migrated) {
+          throw new Error(`Format version ${declaredVersion} needs migrating to ${CURRENT_FORMAT_VERSION}, but "version" comes after "events" in this file`);
+        }
+      }
+    },
+    onIssue: (issue) => {
+      issueCount++;
+      if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue);
+    },
+  };
+
+  let parser: TraceStreamParser;
+  if (importFormat) {
+    // Converted events are already in the current format
+    const importer = getImporter(importFormat);
+    declaredVersion = CURRENT_FORMAT_VERSION;
+    metadata.version = CURRENT_FORMAT_VERSION;
+    metadata.source = importer.label;
+    parser = createImportParser(importer, handlers);
+  } else {
+    parser = createTraceParser(handlers);
+  }
+
+  const totalBytes = source.size;
+  let bytesRead = 0;
+  let lastReport = 0;
+
+  const reader = source.stream().getReader();
+  const decoder = new TextDecoder();
+  const hasher = createContentHasher();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    hasher.update(value);
+    parser.write(decoder.decode(value, { stream: true }));
+
+    const now = performance.now();
+    if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+      lastReport = now;
+      post({ type: 'progress', progress: { bytesRead, totalBytes, eventCount } });
+    }
+  }
+
+  parser.write(decoder.decode());
+  parser.end();
+  // Traces without events still get their version checked
+  getFormat();
+  diagnostics.checkVersion(declaredVersion);
+
+  post({ type: 'progress', progress: { bytesRead, totalBytes, eventCount } });
+
+  if (issueCount > 0 && !skipInvalid) {
+    post({ type: 'invalid', issues, issueCount, invalidCount, totalCount });
+    return;
+  }
+
+  post({
+    type: 'done',
+    tree: builder.finish(),
+    metadata,
+    eventCount,
+    diagnostics: { ...diagnostics.finish(), skippedCount: invalidCount, skippedIssues: issues },
+    sources,
+    contentHash: hasher.digest(),
+  });
+}
+
+self.onmessage = (e: MessageEvent<LoaderRequest>) => {
+  if (e.data.type !== 'load') return;
+
+  load(e.data.source, e.data.skipInvalid, e.data.importFormat).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};